@@ -0,0 +1,171 @@
+// Regression checks for the upstream retry and circuit breaker logic. Runs the Vertex provider
+// against a local stub server (VERTEX_API_BASE_URL) that answers with scripted responses, and the
+// mock provider, which shares that path.
+//
+//   npm test
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+type StubResponse = { status: number; body?: unknown; retryAfter?: string };
+
+// Responses are served in order; once the script runs out every request succeeds
+const script: StubResponse[] = [];
+const requests: string[] = [];
+
+const stub = http.createServer((req, res) => {
+    requests.push(req.url || '');
+    req.resume().on('end', () => {
+        const { status, body, retryAfter } = script.shift() || {
+            status: 200,
+            body: { predictions: [{ mimeType: 'image/png', bytesBase64Encoded: '' }] },
+        };
+        res.writeHead(status, {
+            'Content-Type': 'application/json',
+            ...(retryAfter ? { 'Retry-After': retryAfter } : {}),
+        });
+        res.end(JSON.stringify(body ?? { error: { code: status, message: 'Scripted failure' } }));
+    });
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const attemptsPerRequest = () => Number(process.env.UPSTREAM_MAX_RETRIES) + 1;
+const failingAttempts = (status: number): StubResponse[] =>
+    Array.from({ length: attemptsPerRequest() }, () => ({ status }));
+
+const checks: Array<[string, () => Promise<void>]> = [
+    [
+        'a half-open trial answered with 401 refreshes the token and closes the circuit',
+        async () => {
+            const { ProviderService } = await import('./index');
+            const provider = ProviderService.getProvider();
+            const model = 'stub-circuit-401';
+
+            // Each request fails every attempt; the breaker opens after THRESHOLD requests
+            for (let i = 0; i < Number(process.env.CIRCUIT_BREAKER_THRESHOLD); i++) {
+                script.push(...failingAttempts(500));
+                await assert.rejects(provider.predict(model, {}), { status: 500 });
+            }
+            await assert.rejects(provider.predict(model, {}), { name: 'CircuitOpenError' });
+
+            await sleep(Number(process.env.CIRCUIT_BREAKER_COOLDOWN_MS) + 20);
+            script.push({ status: 401 });
+            await provider.predict(model, {});
+            await provider.predict(model, {});
+        },
+    ],
+    [
+        'one request exhausting its retries counts as a single circuit breaker failure',
+        async () => {
+            const { ProviderService } = await import('./index');
+            const provider = ProviderService.getProvider();
+            const model = 'stub-circuit-retries';
+
+            script.push(...failingAttempts(503));
+            await assert.rejects(provider.predict(model, {}), {
+                name: 'UpstreamError',
+                status: 503,
+            });
+            assert.strictEqual(requests.length, attemptsPerRequest());
+
+            await provider.predict(model, {});
+        },
+    ],
+    [
+        'a request backing off does not hold its concurrency slot',
+        async () => {
+            const { ProviderService } = await import('./index');
+            const provider = ProviderService.getProvider();
+            const model = 'stub-single-slot';
+
+            script.push({ status: 429, retryAfter: '1' });
+            const backingOff = provider.predict(model, {});
+            await sleep(100);
+
+            const startedAt = Date.now();
+            await provider.predict(model, {});
+            assert.ok(Date.now() - startedAt < 500, 'waited for the backing-off request');
+            await backingOff;
+        },
+    ],
+    [
+        'predict retries a 503',
+        async () => {
+            const { ProviderService } = await import('./index');
+
+            script.push({ status: 503 });
+            await ProviderService.getProvider().predict('stub-retry-predict', {});
+            assert.strictEqual(requests.length, 2);
+        },
+    ],
+    [
+        'predictLongRunning does not resend a request the upstream may have accepted',
+        async () => {
+            const { ProviderService } = await import('./index');
+            const provider = ProviderService.getProvider();
+
+            script.push({ status: 503 });
+            await assert.rejects(provider.predictLongRunning('stub-retry-veo', {}));
+            assert.strictEqual(requests.length, 1);
+
+            script.push({ status: 429 });
+            await provider.predictLongRunning('stub-retry-veo', {});
+            assert.strictEqual(requests.length, 3);
+        },
+    ],
+    [
+        'the mock provider sends simulated errors through the circuit breaker',
+        async () => {
+            const { MockProvider } = await import('./index');
+            const provider = new MockProvider();
+            const model = 'mock-circuit';
+
+            for (let i = 0; i < Number(process.env.CIRCUIT_BREAKER_THRESHOLD); i++) {
+                await assert.rejects(
+                    provider.predict(model, { instances: [{ prompt: '[mock:error:503]' }] }),
+                    { status: 503 }
+                );
+            }
+            await assert.rejects(provider.predict(model, { instances: [{ prompt: 'a cat' }] }), {
+                name: 'CircuitOpenError',
+            });
+            assert.strictEqual(requests.length, 0);
+        },
+    ],
+];
+
+async function main(): Promise<void> {
+    await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+
+    // Read by the server's CONFIG, so they must be set before it is imported
+    Object.assign(process.env, {
+        GENERATION_PROVIDER: 'vertex',
+        PROJECT_ID: 'stub-project',
+        VERTEX_API_BASE_URL: `http://127.0.0.1:${(stub.address() as AddressInfo).port}`,
+        VERTEX_ACCESS_TOKEN: 'stub-token',
+        UPSTREAM_MAX_RETRIES: '2',
+        UPSTREAM_RETRY_BASE_DELAY_MS: '1',
+        CIRCUIT_BREAKER_THRESHOLD: '3', // One request's attempts, so retries alone cannot open it
+        CIRCUIT_BREAKER_COOLDOWN_MS: '50',
+        UPSTREAM_CONCURRENCY_OVERRIDES: 'stub-single-slot=1',
+        MOCK_LATENCY_MS: '0',
+    });
+
+    let failed = 0;
+    for (const [name, check] of checks) {
+        script.length = 0;
+        requests.length = 0;
+        try {
+            await check();
+            console.log(`✅ ${name}`);
+        } catch (error) {
+            failed++;
+            console.error(`❌ ${name}\n`, error);
+        }
+    }
+
+    stub.close();
+    process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,558 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import {
+    ASPECT_RATIOS,
+    AccessService,
+    AppError,
+    BudgetExceededError,
+    CONSTRAINTS,
+    FileUtils,
+    ImageGenerationOptions,
+    ImageGenerationResult,
+    ImageGenerationService,
+    ImageStorageService,
+    ImageVersion,
+    JobService,
+    MetadataService,
+    ModelInfo,
+    ModelService,
+    OutputMimeType,
+    ResultService,
+    SafetyFilteredError,
+    UsageService,
+    User,
+    UserService,
+    ValidationError,
+    ValidationUtils,
+    VideoJobService,
+    initializeApp,
+} from './index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type CommandOptions = ReturnType<typeof CommandLine.parse>['values'];
+
+interface CommandOutput {
+    data: unknown; // Printed as JSON with --json
+    lines: string[]; // Printed otherwise
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EXIT_CODES = {
+    SUCCESS: 0,
+    FAILED: 1, // Upstream API, network and other errors
+    USAGE: 2, // Bad arguments, unknown generation or no access to it
+    SAFETY_FILTERED: 3,
+    BUDGET_EXCEEDED: 4,
+} as const;
+
+const USAGE = `Usage: imggen <command> [options]
+
+Commands:
+  generate <prompt>          Generate images
+  edit <id> <prompt>         Edit the first image of a generation (free-form) into a new version
+  video <id> <prompt>        Generate a video from the first image of a generation
+  list                       List generations, newest first
+  show <id>                  Show a generation with its versions
+  export <id> <directory>    Copy a generation's images, videos and metadata.json to a directory
+  models                     List the models with what they support
+
+Options:
+  --json                     Print results as JSON on stdout (progress always goes to stderr)
+  --user <name>              Account that owns new generations (default: IMGGEN_USER or the admin)
+  --model <id>               Model to use (default: the configured one, see the models command)
+  --count <n>                Images to generate or edit (${CONSTRAINTS.MIN_SAMPLE_COUNT}-${CONSTRAINTS.MAX_SAMPLE_COUNT})
+  --aspect-ratio <ratio>     ${ASPECT_RATIOS.join(', ')} (videos: 16:9 or 9:16)
+  --safety <setting>         Imagen safety setting (default ${CONSTRAINTS.DEFAULT_SAFETY_SETTING})
+  --person-generation <mode> Imagen person generation (default ${CONSTRAINTS.DEFAULT_PERSON_GENERATION})
+  --negative-prompt <text>   What to keep out of the image
+  --seed <n>                 Reproducible output (needs --no-watermark)
+  --no-watermark             Leave out the SynthID watermark
+  --no-enhance-prompt        Use the prompt as written
+  --language <code>          Prompt language, e.g. ja (default: auto)
+  --output-format <format>   png or jpeg
+  --quality <0-100>          JPEG compression quality
+  --version <id>             Version to edit or animate (default: the current version)
+  --duration <seconds>       Video length (default ${CONSTRAINTS.DEFAULT_VIDEO_DURATION})
+  --no-audio                 Leave out the soundtrack on models that generate one
+  --search <text>            Filter list by prompt
+  --limit <n>                Results to list (default ${CONSTRAINTS.DEFAULT_PAGE_SIZE})
+
+Exit codes: 0 success, 1 API or other error, 2 invalid usage, 3 blocked by safety filters,
+4 budget exceeded.`;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+class Commands {
+    static async generate(
+        args: string[],
+        options: CommandOptions,
+        user: User
+    ): Promise<CommandOutput> {
+        const {
+            prompt,
+            sampleCount,
+            aspectRatio,
+            safetySetting,
+            personGeneration,
+            generationOptions,
+            model,
+        } = CommandLine.validate(() => ({
+            prompt: ValidationUtils.validatePrompt(args.join(' ')),
+            sampleCount: ValidationUtils.validateSampleCount(options.count),
+            aspectRatio:
+                options['aspect-ratio'] !== undefined
+                    ? ValidationUtils.validateAspectRatio(options['aspect-ratio'])
+                    : CONSTRAINTS.DEFAULT_ASPECT_RATIO,
+            safetySetting: options.safety || CONSTRAINTS.DEFAULT_SAFETY_SETTING,
+            personGeneration: options['person-generation'] || CONSTRAINTS.DEFAULT_PERSON_GENERATION,
+            generationOptions: CommandLine.getGenerationOptions(options),
+            model: ValidationUtils.validateModel(options.model, 'generate'),
+        }));
+        CommandLine.validate(() =>
+            ValidationUtils.validateModelOptions(model, { aspectRatio, sampleCount })
+        );
+
+        UsageService.assertWithinBudget(UsageService.estimateCost(model.id, sampleCount));
+
+        const generationId = MetadataService.allocateGenerationId();
+        CommandLine.progress(`🎨 Generating ${sampleCount} image(s) with ${model.id}...`);
+        const predictions = await ImageGenerationService.generateImage(
+            prompt,
+            sampleCount,
+            aspectRatio,
+            safetySetting,
+            personGeneration,
+            [],
+            generationOptions,
+            generationId,
+            model.id
+        );
+
+        MetadataService.createGeneration(generationId, user.id, {
+            operation: 'generate',
+            prompt,
+            enhancedPrompt: predictions[0]?.prompt,
+            model: model.id,
+            parameters: {
+                sampleCount,
+                aspectRatio,
+                safetySetting,
+                personGeneration,
+                ...generationOptions,
+            },
+            images: ImageStorageService.saveImages(predictions, generationId),
+        });
+
+        return this.describe(ResultService.getResult(generationId)!);
+    }
+
+    static async edit(args: string[], options: CommandOptions, user: User): Promise<CommandOutput> {
+        const [id, ...promptWords] = args;
+        const generationId = CommandLine.getGenerationId(id, user, true);
+        const {
+            editPrompt,
+            sampleCount,
+            safetySetting,
+            personGeneration,
+            generationOptions,
+            model,
+        } = CommandLine.validate(() => ({
+            editPrompt: ValidationUtils.validatePrompt(promptWords.join(' ')),
+            sampleCount: ValidationUtils.validateSampleCount(options.count),
+            safetySetting: options.safety || CONSTRAINTS.DEFAULT_SAFETY_SETTING,
+            personGeneration: options['person-generation'] || CONSTRAINTS.DEFAULT_PERSON_GENERATION,
+            generationOptions: CommandLine.getGenerationOptions(options),
+            model: ValidationUtils.validateModel(options.model, 'edit'),
+        }));
+        CommandLine.validate(() => ValidationUtils.validateModelOptions(model, { sampleCount }));
+        const parentVersion = CommandLine.getVersion(generationId, options.version);
+
+        UsageService.assertWithinBudget(UsageService.estimateCost(model.id, sampleCount));
+
+        CommandLine.progress(`✏️  Editing image with ${model.id}...`);
+        const imageBuffer = fs.readFileSync(FileUtils.outputUrlToPath(parentVersion.images[0]));
+        const predictions = await ImageGenerationService.editImage(
+            imageBuffer.toString('base64'),
+            editPrompt,
+            sampleCount,
+            safetySetting,
+            personGeneration,
+            generationOptions,
+            generationId,
+            model.id
+        );
+
+        MetadataService.addVersion(
+            generationId,
+            {
+                parentId: parentVersion.id,
+                operation: 'edit',
+                prompt: editPrompt,
+                enhancedPrompt: predictions[0]?.prompt,
+                model: model.id,
+                parameters: {
+                    sampleCount,
+                    safetySetting,
+                    personGeneration,
+                    ...generationOptions,
+                },
+            },
+            (versionId) => ImageStorageService.saveImages(predictions, generationId, versionId)
+        );
+
+        return this.describe(ResultService.getResult(generationId)!);
+    }
+
+    // Runs the same background job as the web app, but waits for it and reports polling on stderr
+    static async video(
+        args: string[],
+        options: CommandOptions,
+        user: User
+    ): Promise<CommandOutput> {
+        const [id, ...promptWords] = args;
+        const generationId = CommandLine.getGenerationId(id, user, true);
+        const { prompt, aspectRatio, duration, model, generateAudio } = CommandLine.validate(() => {
+            const aspectRatio = options['aspect-ratio'] ?? CONSTRAINTS.DEFAULT_VIDEO_ASPECT_RATIO;
+            const duration = Number(options.duration ?? CONSTRAINTS.DEFAULT_VIDEO_DURATION);
+            if (!Number.isInteger(duration) || duration < 1) {
+                throw new Error('duration must be a whole number of seconds');
+            }
+            const model = ValidationUtils.validateModel(options.model, 'video');
+            ValidationUtils.validateModelOptions(model, { aspectRatio, duration });
+            return {
+                prompt: ValidationUtils.validatePrompt(promptWords.join(' ')),
+                aspectRatio,
+                duration,
+                model,
+                generateAudio: model.audio === true && !options['no-audio'],
+            };
+        });
+        const version = CommandLine.getVersion(generationId, options.version);
+
+        UsageService.assertWithinBudget(
+            UsageService.estimateVideoCost(duration, model.id, generateAudio)
+        );
+
+        const job = JobService.createJob(generationId, {
+            imagePath: version.images[0],
+            sourceVersionId: version.id,
+            prompt,
+            model: model.id,
+            aspectRatio,
+            duration,
+            generateAudio,
+        });
+        CommandLine.progress(`🎬 Started video job ${job.id} with ${model.id}`);
+        await VideoJobService.complete(job, (attempt, maxAttempts) =>
+            CommandLine.progress(`⏳ Waiting for Veo (poll ${attempt}/${maxAttempts})`)
+        );
+
+        const finishedJob = JobService.getJob(job.id)!;
+        return {
+            data: { job: finishedJob, result: ResultService.getResult(generationId) },
+            lines: [`#${generationId} ${prompt}`, FileUtils.outputUrlToPath(finishedJob.videoUrl!)],
+        };
+    }
+
+    static async list(args: string[], options: CommandOptions, user: User): Promise<CommandOutput> {
+        const query = CommandLine.validate(() =>
+            ValidationUtils.validateResultQuery({ q: options.search, limit: options.limit })
+        );
+        const { results } = ResultService.searchResults(query, user.id);
+
+        return {
+            data: results,
+            lines: results.map(
+                (result) =>
+                    `${result.id}\t${result.resultImages.length} image(s)` +
+                    `\t${result.resultVideos?.length ?? 0} video(s)\t${result.prompts.at(-1) ?? ''}`
+            ),
+        };
+    }
+
+    static async show(args: string[], options: CommandOptions, user: User): Promise<CommandOutput> {
+        const generationId = CommandLine.getGenerationId(args[0], user, false);
+        return this.describe(ResultService.getResult(generationId)!);
+    }
+
+    // Copies the files of the displayed version and all videos; metadata.json has every version
+    static async export(
+        args: string[],
+        options: CommandOptions,
+        user: User
+    ): Promise<CommandOutput> {
+        const generationId = CommandLine.getGenerationId(args[0], user, false);
+        if (!args[1]) {
+            throw new UsageError('export needs a target directory');
+        }
+
+        const directory = path.resolve(args[1]);
+        const result = ResultService.getResult(generationId)!;
+        fs.mkdirSync(directory, { recursive: true });
+
+        const files = [...result.resultImages, ...(result.resultVideos ?? [])].map((url) => {
+            const target = path.join(directory, path.basename(url));
+            fs.copyFileSync(FileUtils.outputUrlToPath(url), target);
+            return target;
+        });
+        const metadataFile = path.join(directory, 'metadata.json');
+        fs.writeFileSync(metadataFile, JSON.stringify(result, null, 2));
+        files.push(metadataFile);
+
+        return { data: { directory, files }, lines: files };
+    }
+
+    static async models(): Promise<CommandOutput> {
+        const models = ModelService.getModels();
+
+        return {
+            data: models,
+            lines: models.map((model) => `${model.id}  ${this.describeModel(model)}`),
+        };
+    }
+
+    private static describeModel(model: ModelInfo): string {
+        return [
+            model.operations.join('/'),
+            model.aspectRatios.join(' '),
+            `up to ${model.maxSampleCount}`,
+            model.editModes && `edit modes: ${model.editModes.join(', ')}`,
+            model.durations && `${model.durations.join('/')}s`,
+            model.audio && 'audio',
+            model.videoModes && `video modes: ${model.videoModes.join(', ')}`,
+            model.resolutions && model.resolutions.join('/'),
+        ]
+            .filter(Boolean)
+            .join(' · ');
+    }
+
+    private static describe(result: ImageGenerationResult): CommandOutput {
+        return {
+            data: result,
+            lines: [
+                `#${result.id} ${result.prompts.join(' → ')}`,
+                ...[...result.resultImages, ...(result.resultVideos ?? [])].map((url) =>
+                    FileUtils.outputUrlToPath(url)
+                ),
+            ],
+        };
+    }
+}
+
+// ============================================================================
+// Command Line
+// ============================================================================
+
+class CommandLine {
+    private static commands: Record<
+        string,
+        (args: string[], options: CommandOptions, user: User) => Promise<CommandOutput>
+    > = {
+        generate: (args, options, user) => Commands.generate(args, options, user),
+        edit: (args, options, user) => Commands.edit(args, options, user),
+        video: (args, options, user) => Commands.video(args, options, user),
+        list: (args, options, user) => Commands.list(args, options, user),
+        show: (args, options, user) => Commands.show(args, options, user),
+        export: (args, options, user) => Commands.export(args, options, user),
+        models: () => Commands.models(),
+    };
+
+    static parse(argv: string[]) {
+        return parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                json: { type: 'boolean' },
+                help: { type: 'boolean', short: 'h' },
+                user: { type: 'string' },
+                model: { type: 'string' },
+                count: { type: 'string' },
+                'aspect-ratio': { type: 'string' },
+                'negative-prompt': { type: 'string' },
+                seed: { type: 'string' },
+                'no-watermark': { type: 'boolean' },
+                'no-enhance-prompt': { type: 'boolean' },
+                language: { type: 'string' },
+                'output-format': { type: 'string' },
+                quality: { type: 'string' },
+                safety: { type: 'string' },
+                'person-generation': { type: 'string' },
+                version: { type: 'string' },
+                duration: { type: 'string' },
+                'no-audio': { type: 'boolean' },
+                search: { type: 'string' },
+                limit: { type: 'string' },
+            },
+        });
+    }
+
+    static async main(argv: string[]): Promise<number> {
+        // Services log with console.log; stdout is reserved for results
+        console.log = console.error;
+
+        let json = argv.includes('--json');
+
+        try {
+            let parsed: ReturnType<typeof CommandLine.parse>;
+            try {
+                parsed = this.parse(argv);
+            } catch (error) {
+                throw new UsageError(error instanceof Error ? error.message : String(error));
+            }
+
+            const { values: options, positionals } = parsed;
+            const [commandName, ...args] = positionals;
+            json = options.json === true;
+
+            if (options.help || !commandName) {
+                process.stderr.write(`${USAGE}\n`);
+                return options.help ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE;
+            }
+
+            const command = this.commands[commandName];
+            if (!command) {
+                throw new UsageError(`Unknown command "${commandName}"`);
+            }
+
+            initializeApp();
+            const output = await command(args, options, this.resolveUser(options.user));
+            this.print(json ? JSON.stringify(output.data, null, 2) : output.lines.join('\n'));
+            return EXIT_CODES.SUCCESS;
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            const exitCode = this.getExitCode(error);
+
+            if (json) {
+                const code = error instanceof AppError ? error.code : undefined;
+                this.print(JSON.stringify({ error: message, code, exitCode }, null, 2));
+            }
+            process.stderr.write(`❌ ${message}\n`);
+            return exitCode;
+        }
+    }
+
+    // Validation errors from the shared services are reported as usage errors
+    static validate<T>(callback: () => T): T {
+        try {
+            return callback();
+        } catch (error) {
+            throw new UsageError(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    // Flags for the optional Imagen parameters, checked by the same validation as the API
+    static getGenerationOptions(options: CommandOptions): ImageGenerationOptions {
+        const format = options['output-format']?.replace(/^jpg$/, 'jpeg');
+
+        return ValidationUtils.validateGenerationOptions({
+            negativePrompt: options['negative-prompt'],
+            seed: options.seed !== undefined ? Number(options.seed) : undefined,
+            enhancePrompt: options['no-enhance-prompt'] ? false : undefined,
+            addWatermark: options['no-watermark'] ? false : undefined,
+            language: options.language,
+            outputMimeType:
+                format !== undefined ? (`image/${format}` as OutputMimeType) : undefined,
+            compressionQuality: options.quality !== undefined ? Number(options.quality) : undefined,
+        });
+    }
+
+    static progress(message: string): void {
+        process.stderr.write(`${message}\n`);
+    }
+
+    // The CLI is held to the same access rules as the web app
+    static getGenerationId(id: string | undefined, user: User, requireOwner: boolean): number {
+        const generationId = Number(id);
+        if (!Number.isInteger(generationId) || generationId < 1) {
+            throw new UsageError('A generation id is required');
+        }
+
+        const access = AccessService.getAccess(user.id, generationId);
+        if (!access) {
+            throw new UsageError(`Generation ${generationId} not found`);
+        }
+        if (requireOwner && access !== 'owner') {
+            throw new UsageError(`Only the owner can change generation ${generationId}`);
+        }
+        return generationId;
+    }
+
+    static getVersion(generationId: number, versionId: string | undefined): ImageVersion {
+        const metadata = MetadataService.getMetadata(generationId)!;
+        const id = versionId !== undefined ? Number(versionId) : metadata.currentVersionId;
+        const version = metadata.versions?.find((version) => version.id === id);
+
+        if (!version) {
+            throw new UsageError(`Version ${versionId} not found`);
+        }
+        if (version.images.length === 0) {
+            throw new UsageError(`Version ${version.id} has no stored image`);
+        }
+        return version;
+    }
+
+    private static resolveUser(username = process.env.IMGGEN_USER): User {
+        if (username) {
+            const user = UserService.getUserByName(username);
+            if (!user) {
+                throw new UsageError(`No account named "${username}"`);
+            }
+            return user;
+        }
+
+        const admin = UserService.listUsers().find((user) => user.isAdmin);
+        if (!admin) {
+            throw new UsageError('No accounts yet: create the admin account in the web app first');
+        }
+        return admin;
+    }
+
+    private static getExitCode(error: unknown): number {
+        if (error instanceof UsageError || error instanceof ValidationError) {
+            return EXIT_CODES.USAGE;
+        }
+        if (error instanceof SafetyFilteredError) {
+            return EXIT_CODES.SAFETY_FILTERED;
+        }
+        if (error instanceof BudgetExceededError) {
+            return EXIT_CODES.BUDGET_EXCEEDED;
+        }
+        return EXIT_CODES.FAILED;
+    }
+
+    private static print(text: string): void {
+        if (text) {
+            process.stdout.write(`${text}\n`);
+        }
+    }
+}
+
+// ============================================================================
+// Startup
+// ============================================================================
+
+// Exit through exitCode so piped stdout is flushed first
+CommandLine.main(process.argv.slice(2)).then((exitCode) => {
+    process.exitCode = exitCode;
+});
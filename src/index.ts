@@ -1,26 +1,73 @@
 // Web server for Image and Video Generation interface using Vertex AI Imagen and Veo APIs
 import dotenv from 'dotenv';
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
+import { execFile } from 'child_process';
+import crypto from 'crypto';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import multer from 'multer';
+import sharp from 'sharp';
+import Database from 'better-sqlite3';
 import { GoogleAuth } from 'google-auth-library';
 
 // Load environment variables
-dotenv.config();
+dotenv.config({ quiet: true });
 
 // ============================================================================
 // Types & Interfaces
 // ============================================================================
 
+type GenerationOrigin = 'generated' | 'uploaded';
+
 interface ImageGenerationResult {
     id: number;
-    prompts: string[]; // All prompts used for this image (original + edits)
+    origin: GenerationOrigin;
+    prompts: string[]; // Prompts that produced the current version (original + edits)
     videoPrompts?: string[]; // Video generation prompts
     resultImages: string[];
     resultVideos?: string[]; // Videos generated from this image
+    takes?: VideoTake[]; // The same videos with the requests that produced them
+    sequence?: { segments: SequenceSegment[]; crossfade: number }; // Storyboard of a sequence
+    assets?: GenerationAsset[]; // Ids for addressing the images and videos in requests
+    currentVersionId?: number;
+    versions?: ImageVersion[];
+    owner?: { id: number; username: string };
+}
+
+// A file of a generation. Requests address it by generation id + asset id, never by path.
+interface GenerationAsset {
+    id: number;
+    kind: 'image' | 'video';
+    url: string;
+    versionId: number | null; // Null for videos
 }
 
+// A video of a generation and the request that produced it; its id is the video's asset id
+interface VideoTake {
+    id: number;
+    url: string;
+    prompt: string | null; // Null for videos found on disk without a recorded prompt
+    model: string | null;
+    parameters: VideoTakeParameters;
+    sourceVersionId: number | null; // Image version the video starts from; null for text-to-video
+    sourceImage: string | null;
+    jobId: string | null;
+    starred: boolean;
+    createdAt: string;
+}
+
+type VideoTakeParameters = Omit<
+    VideoJobParams,
+    'prompt' | 'model' | 'imagePath' | 'sourceVersionId'
+>;
+
+// An image to work from: an asset of a generation, or (deprecated) its /outputs/... URL
+type ImageReference = { generationId: number; assetId: number } | { imagePath: string };
+
 interface PredictionResponse {
     mimeType: string;
     bytesBase64Encoded: string;
@@ -35,33 +82,572 @@ interface APIResponse {
     }>;
 }
 
+interface OperationResponse {
+    name?: string;
+}
+
+interface OperationStatus {
+    done?: boolean;
+    error?: { code?: number; message?: string; details?: unknown[] };
+    response?: {
+        videos?: Array<{ bytesBase64Encoded?: string; gcsUri?: string; mimeType?: string }>;
+        raiMediaFilteredCount?: number;
+    };
+}
+
+// Backend that serves Imagen predictions and Veo long-running operations
+interface GenerationProvider {
+    readonly name: string;
+    predict(model: string, requestBody: unknown): Promise<APIResponse>;
+    predictLongRunning(model: string, requestBody: unknown): Promise<OperationResponse>;
+    fetchPredictOperation(model: string, operationName: string): Promise<OperationStatus>;
+}
+
+interface ImageVersionParameters extends Partial<
+    Omit<GenerateImageRequest, 'prompt' | 'references' | 'model'>
+> {
+    references?: StoredReferenceImage[];
+    editMode?: EditMode;
+    maskMode?: MaskMode;
+    outpaintAspectRatio?: string;
+    duration?: number; // Video settings of text-to-video versions
+    resolution?: string;
+    generateAudio?: boolean;
+    segments?: SequenceSegment[]; // Clips of sequence versions
+    crossfade?: number;
+    upscaleFactor?: UpscaleFactor; // Upscale versions
+    sourceImage?: string; // Image an upscale version was made from
+}
+
+interface ImageVersion {
+    id: number; // Sequential within a generation, starting at 1
+    parentId: number | null; // Version this one was edited from (null for the original)
+    operation: 'generate' | 'edit' | 'upscale' | 'upload' | 'video' | 'sequence'; // The last two have only videos
+    prompt: string;
+    enhancedPrompt?: string;
+    model?: string; // Model that produced the images (missing for uploads and older versions)
+    parameters: ImageVersionParameters;
+    images: string[]; // Empty for legacy versions whose files were overwritten
+    createdAt: string;
+}
+
 interface ImageMetadata {
-    prompts: string[]; // Array of all prompts: [original, edit1, edit2, ...]
+    origin?: GenerationOrigin; // Missing for generations created before uploads existed
+    originalFilename?: string; // Name of the uploaded file
+    prompts: string[]; // Array of all prompts in the order they were used: [original, edit1, edit2, ...]
     enhancedPrompt?: string;
     videoPrompts?: string[]; // Video generation prompts
+    versions?: ImageVersion[];
+    currentVersionId?: number;
+}
+
+type ReferenceType = 'subject' | 'style';
+
+type SubjectType = 'person' | 'animal' | 'product' | 'default';
+
+interface ReferenceImageInput {
+    referenceId: number; // Referred to in the prompt as [referenceId]
+    type: ReferenceType;
+    subjectType?: SubjectType; // Only used for subject references
+    description: string;
+    imagePath?: string; // Gallery image, e.g. /outputs/result-123.png
+    imageData?: string; // Uploaded image as base64 or data URL
+}
+
+// Reference as recorded in metadata; uploads are saved to outputs/references first
+interface StoredReferenceImage extends Omit<ReferenceImageInput, 'imagePath' | 'imageData'> {
+    imagePath: string;
+}
+
+interface ResolvedReferenceImage extends StoredReferenceImage {
+    imageBase64: string;
+}
+
+type OutputMimeType = 'image/png' | 'image/jpeg';
+
+// Optional Imagen parameters; Imagen's own defaults apply to anything left out
+interface ImageGenerationOptions {
+    negativePrompt?: string; // What to keep out of the image
+    seed?: number; // Makes output reproducible; Imagen requires addWatermark: false with a seed
+    enhancePrompt?: boolean; // Let Imagen rewrite the prompt (on by default)
+    addWatermark?: boolean; // Invisible SynthID watermark (on by default)
+    language?: string; // Language of the prompt; 'auto' detects it
+    outputMimeType?: OutputMimeType;
+    compressionQuality?: number; // JPEG quality, 0-100
 }
 
-interface GenerateImageRequest {
+interface GenerateImageRequest extends ImageGenerationOptions {
     prompt: string;
+    model?: string; // Registry model id; defaults to IMAGEN_MODEL (IMAGEN_EDIT_MODEL with references)
     sampleCount?: number;
     aspectRatio?: string;
     safetySetting?: string;
     personGeneration?: string;
+    references?: ReferenceImageInput[]; // Subject/style images for customized generation
 }
 
-interface EditImageRequest {
-    imagePath: string;
+type EditMode = 'inpaint-insert' | 'inpaint-remove' | 'outpaint' | 'background-swap';
+
+type MaskMode = 'user' | 'background' | 'foreground' | 'semantic';
+
+interface EditImageRequest extends ImageGenerationOptions {
+    generationId?: number; // Image to edit, with assetId
+    assetId?: number;
+    imagePath?: string; // Deprecated: the image's /outputs/... URL, accepted instead of the ids
+    versionId?: number; // Branch from this version instead of the version containing imagePath
     editPrompt: string;
+    model?: string; // Registry model id; defaults to IMAGEN_EDIT_MODEL
     sampleCount?: number;
     safetySetting?: string;
     personGeneration?: string;
+    editMode?: EditMode; // Omit for a free-form edit of the whole image
+    maskMode?: MaskMode; // 'user' requires maskImage; the others are detected automatically
+    maskImage?: string; // Base64 PNG (or data URL), white marks the area to edit
+    maskClasses?: number[]; // Segmentation class ids for the 'semantic' mask mode
+    maskDilation?: number; // 0-1, grows the mask to blend the edit into its surroundings
+    outpaintAspectRatio?: string; // Pads the canvas to this aspect ratio before outpainting
 }
 
-interface GenerateVideoRequest {
-    imagePath: string;
+// Edit options in the form sent to the Imagen capability model
+interface ImageEditOptions extends ImageGenerationOptions {
+    editMode?: string;
+    mask?: {
+        maskMode: string;
+        imageBase64?: string;
+        maskClasses?: number[];
+        dilation?: number;
+    };
+}
+
+// Enlarges a gallery image with Imagen's upscale mode; the result is a new version of its generation
+interface UpscaleImageRequest {
+    generationId?: number; // Image to upscale, with assetId
+    assetId?: number;
+    factor: UpscaleFactor;
+    model?: string; // Registry model id; defaults to IMAGEN_UPSCALE_MODEL
+}
+
+type UpscaleFactor = 'x2' | 'x4';
+
+// 'text' creates a new generation from the prompt alone, 'image' animates a gallery image,
+// 'frames' runs from a gallery image to a second one and 'extend' continues a take from its last frame
+type VideoMode = 'text' | 'image' | 'frames' | 'extend';
+
+// Optional Veo parameters; Veo's own defaults apply to anything left out
+interface VideoGenerationOptions {
+    negativePrompt?: string;
+    resolution?: string; // '720p' or '1080p'
+    seed?: number;
+    sampleCount?: number; // Videos per request
+}
+
+interface GenerateVideoRequest extends VideoGenerationOptions {
+    mode?: VideoMode; // Defaults to 'image'
+    generationId?: number; // Start frame, with assetId ('image' and 'frames')
+    assetId?: number;
+    imagePath?: string; // Deprecated: the image's /outputs/... URL, accepted instead of the ids
+    lastFrame?: { generationId: number; assetId: number }; // End frame ('frames')
+    takeId?: number; // Take to continue, with generationId ('extend')
     prompt: string;
+    model?: string; // Registry model id; defaults to VEO_MODEL
     aspectRatio?: string;
     duration?: number;
+    generateAudio?: boolean; // Only for models with audio, where it defaults to true
+}
+
+// Image sent to Veo as the first or last frame
+interface VideoFrame {
+    bytesBase64Encoded: string;
+    mimeType: string;
+}
+
+// 'customize' is generation guided by subject or style reference images
+type ModelOperation = 'generate' | 'customize' | 'edit' | 'upscale' | 'video';
+
+// What a model supports; requests are checked against it before anything is sent upstream
+interface ModelInfo {
+    id: string;
+    name: string;
+    operations: ModelOperation[];
+    aspectRatios: readonly string[];
+    maxSampleCount: number;
+    editModes?: readonly EditMode[]; // Mask-based edit modes; any editing model does free-form
+    durations?: readonly number[]; // Video lengths in seconds
+    audio?: boolean; // Generates a soundtrack along with the video
+    videoModes?: readonly VideoMode[];
+    resolutions?: readonly string[];
+}
+
+type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+type GenerationEventType =
+    | 'queued'
+    | 'request-sent'
+    | 'poll-attempt'
+    | 'safety-filtered'
+    | 'saved'
+    | 'failed'
+    | 'gallery-updated'; // Trashed or restored; result is missing if it left the gallery
+
+interface GenerationEvent {
+    type: GenerationEventType;
+    generationId: number;
+    operation: 'generate' | 'edit' | 'upscale' | 'video' | 'upload' | 'trash' | 'share';
+    jobId?: string;
+    message?: string;
+    code?: ErrorCode; // Sent with 'failed' and 'safety-filtered' events
+    attempt?: number; // Veo poll attempt (1-based)
+    maxAttempts?: number;
+    result?: ImageGenerationResult; // Full gallery entry, sent with 'saved' events
+    timestamp: string;
+}
+
+// Video request as stored with its job; the frames are the gallery URLs the request resolved to
+interface VideoJobParams extends Omit<
+    GenerateVideoRequest,
+    'generationId' | 'assetId' | 'lastFrame'
+> {
+    imagePath?: string; // Missing for text-to-video
+    sourceVersionId?: number; // Version of the image at imagePath
+    lastFramePath?: string;
+    videoPath?: string; // Take whose last frame starts the video ('extend')
+}
+
+// Takes to stitch into one video, in order
+interface CreateSequenceRequest {
+    takes: Array<{ generationId: number; takeId: number }>;
+    crossfade?: number; // Seconds each clip fades into the next; 0 cuts
+    title?: string;
+}
+
+// A clip of a sequence, recorded when the sequence was made so later edits do not change it
+interface SequenceSegment {
+    generationId: number;
+    takeId: number;
+    url: string;
+    prompt: string | null;
+    duration: number; // Seconds
+}
+
+// What ffprobe reports about a video file
+interface VideoProbe {
+    duration: number; // Seconds
+    width: number;
+    height: number;
+    hasAudio: boolean;
+}
+
+interface VideoJob {
+    id: string;
+    generationId: number;
+    status: JobStatus;
+    params: VideoJobParams; // Request parameters, needed to restart the job
+    operationName?: string; // Veo long-running operation name, needed to resume polling
+    videoUrl?: string; // The first video when the request returned several
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Filters and pagination for the results gallery
+interface ResultQuery {
+    search?: string; // Full-text search over image, edit and video prompts
+    from?: string; // ISO timestamp, inclusive
+    to?: string; // ISO timestamp, inclusive
+    hasVideo?: boolean;
+    aspectRatio?: string;
+    sampleCount?: number;
+    cursor?: number; // Generation id of the last result on the previous page
+    limit: number;
+    scope: ResultScope;
+}
+
+// Own generations, those shared with the user, or both
+type ResultScope = 'all' | 'mine' | 'shared';
+
+interface ResultPage {
+    results: ImageGenerationResult[];
+    nextCursor: number | null; // Null on the last page
+}
+
+type UsageOperation = 'generate' | 'edit' | 'upscale' | 'video';
+
+type UsageOutcome = 'succeeded' | 'safety-filtered' | 'failed';
+
+// One upstream Imagen or Veo call as recorded in the usage ledger
+interface UsageEntry {
+    generationId?: number;
+    model: string;
+    operation: UsageOperation;
+    sampleCount: number; // Requested outputs
+    outputCount: number; // Outputs actually returned, which is what gets billed
+    durationSeconds?: number; // Video length
+    generateAudio?: boolean;
+    outcome: UsageOutcome;
+    latencyMs: number;
+}
+
+// USD list prices; images are billed per output, videos per second of output
+interface ModelPrice {
+    perImage?: number;
+    perSecond?: number;
+    perSecondWithAudio?: number;
+}
+
+interface UsageRollup {
+    period: string; // YYYY-MM-DD or YYYY-MM (UTC)
+    calls: number;
+    failedCalls: number;
+    images: number;
+    videoSeconds: number;
+    estimatedCostUsd: number;
+}
+
+interface BudgetStatus {
+    limitUsd: number | null; // Null when no budget is configured
+    spentUsd: number;
+    pendingUsd: number; // Reserved for video jobs that have not finished yet
+    remainingUsd: number | null;
+    resetsAt: string;
+}
+
+interface TrashedGeneration {
+    id: number;
+    prompt?: string; // Original prompt, to recognise the generation
+    images: string[];
+    deletedAt: string;
+}
+
+// Single image variant or video trashed on its own, while its generation stays in the gallery
+interface TrashedAsset {
+    id: number;
+    generationId: number;
+    kind: 'image' | 'video';
+    url: string;
+    deletedAt: string;
+}
+
+interface ConsistencyReport {
+    orphanedFiles: string[]; // Result files in outputs/ that no generation refers to
+    missingFiles: string[]; // Tracked images and videos whose file is gone
+    emptyGenerations: number[]; // Generations without a single image or video
+}
+
+interface ConsistencyRepair {
+    adoptedVideos: string[]; // Orphaned videos attached to their existing generation
+    quarantinedFiles: string[]; // Other orphaned files, moved to outputs/orphaned
+    removedAssets: string[];
+    removedGenerations: number[];
+}
+
+// One row of a batch file. The optional edit applies to the first generated image, and the
+// video is made from the first image of the result (after the edit, if any).
+interface BatchRowInput {
+    prompt: string;
+    sampleCount: number;
+    aspectRatio: string;
+    safetySetting: string;
+    personGeneration: string;
+    editPrompt?: string;
+    videoPrompt?: string;
+}
+
+type BatchFormat = 'jsonl' | 'csv';
+
+type BatchRowStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+interface BatchRow {
+    line: number; // Line (JSONL) or row (CSV, header included) in the submitted file
+    input: BatchRowInput;
+    status: BatchRowStatus;
+    generationId?: number;
+    editVersionId?: number;
+    videoJobId?: string;
+    error?: string;
+    updatedAt: string;
+}
+
+interface Batch {
+    id: string;
+    name: string;
+    status: 'running' | 'completed'; // Completed once no row is pending or running
+    counts: Record<BatchRowStatus, number>;
+    createdAt: string;
+    rows?: BatchRow[];
+}
+
+// Batch report line: a row with what it produced
+interface BatchReportRow extends BatchRow {
+    images: string[];
+    videoStatus?: JobStatus;
+    videoUrl?: string;
+}
+
+// Stable error codes sent with every error response, so clients need not parse messages
+type ErrorCode =
+    | 'VALIDATION_FAILED' // 400
+    | 'UNAUTHENTICATED' // 401
+    | 'BUDGET_EXCEEDED' // 402
+    | 'FORBIDDEN' // 403
+    | 'NOT_FOUND' // 404
+    | 'PAYLOAD_TOO_LARGE' // 413
+    | 'SAFETY_BLOCKED' // 422
+    | 'RATE_LIMITED' // 429
+    | 'INTERNAL_ERROR' // 500
+    | 'UPSTREAM_ERROR' // 502
+    | 'UPSTREAM_UNAVAILABLE' // 503
+    | 'AUTH_MISCONFIGURED' // 503
+    | 'MEDIA_UNAVAILABLE'; // 503
+
+// Where upstream access tokens come from, in order of precedence
+interface CredentialSource {
+    kind: 'access-token' | 'key-file' | 'application-default';
+    description: string;
+    keyFile?: string; // Watched for rotation
+}
+
+interface CachedAccessToken {
+    token: string;
+    expiresAt: number;
+}
+
+interface User {
+    id: number;
+    username: string;
+    isAdmin: boolean; // The first account; may create accounts and run maintenance
+    createdAt: string;
+}
+
+// API keys as listed to their owner; the key itself is only returned once, on creation
+interface ApiKeyInfo {
+    id: number;
+    name: string;
+    prefix: string; // First characters of the key, to tell keys apart
+    createdAt: string;
+    lastUsedAt?: string;
+}
+
+// Owners may change a generation; users it is shared with may only view it
+type GenerationAccess = 'owner' | 'shared';
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: User; // Set by RequestHandlers.requireUser
+        }
+    }
+}
+
+// Rows as stored in the gallery database
+interface GenerationRow {
+    id: number;
+    origin: GenerationOrigin;
+    original_filename: string | null;
+    enhanced_prompt: string | null;
+    current_version_id: number | null;
+    created_at: string;
+    deleted_at: string | null; // Set while the generation is in the trash
+    owner_id: number | null; // Null until the first account adopts pre-account generations
+}
+
+interface VersionRow {
+    generation_id: number;
+    id: number;
+    parent_id: number | null;
+    operation: ImageVersion['operation'];
+    prompt: string;
+    enhanced_prompt: string | null;
+    model: string | null;
+    parameters: string; // JSON-encoded ImageVersionParameters
+    created_at: string;
+}
+
+interface PromptRow {
+    kind: 'image' | 'video';
+    prompt: string;
+}
+
+interface AssetRow {
+    id: number;
+    generation_id: number;
+    version_id: number | null; // Null for videos
+    kind: 'image' | 'video';
+    url: string;
+}
+
+// A video asset joined with its take; videos without a recorded take have nulls
+interface TakeRow {
+    id: number;
+    url: string;
+    created_at: string;
+    prompt: string | null;
+    model: string | null;
+    parameters: string | null;
+    source_version_id: number | null;
+    source_image: string | null;
+    job_id: string | null;
+    starred: number;
+}
+
+interface JobRow {
+    id: string;
+    generation_id: number;
+    status: JobStatus;
+    params: string; // JSON-encoded GenerateVideoRequest
+    operation_name: string | null;
+    video_url: string | null;
+    error: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+interface BatchRecord {
+    id: string;
+    owner_id: number;
+    name: string;
+    created_at: string;
+}
+
+interface BatchRowRecord {
+    batch_id: string;
+    line: number;
+    input: string; // JSON-encoded BatchRowInput
+    status: BatchRowStatus;
+    generation_id: number | null;
+    edit_version_id: number | null;
+    video_job_id: string | null;
+    error: string | null;
+    updated_at: string;
+}
+
+interface UserRow {
+    id: number;
+    username: string;
+    password_hash: string;
+    is_admin: number;
+    created_at: string;
+}
+
+interface ApiKeyRow {
+    id: number;
+    user_id: number;
+    name: string;
+    prefix: string;
+    created_at: string;
+    last_used_at: string | null;
+}
+
+// Generation entries as found in the legacy metadata.json
+interface LegacyMetadataEntry {
+    id: number;
+    origin?: GenerationOrigin;
+    originalFilename?: string;
+    prompt?: string; // Format used before prompts became a list
+    prompts?: string[];
+    enhancedPrompt?: string;
+    videoPrompts?: string[];
+    versions?: ImageVersion[];
+    currentVersionId?: number;
 }
 
 // ============================================================================
@@ -74,13 +660,50 @@ const CONFIG = {
     PORT: Number(process.env.PORT) || 3000,
     IMAGEN_MODEL: process.env.IMAGEN_MODEL || 'imagen-3.0-generate-001',
     IMAGEN_EDIT_MODEL: process.env.IMAGEN_EDIT_MODEL || 'imagen-3.0-capability-001',
+    IMAGEN_UPSCALE_MODEL: process.env.IMAGEN_UPSCALE_MODEL || 'imagen-4.0-upscale-preview',
     VEO_MODEL: process.env.VEO_MODEL || 'veo-3.0-generate-001',
+    PROVIDER: process.env.GENERATION_PROVIDER || 'vertex', // 'vertex' or 'mock'
+    VIDEO_POLL_INTERVAL_MS: Number(process.env.VIDEO_POLL_INTERVAL_MS) || 5000,
+    MOCK_LATENCY_MS: Number(process.env.MOCK_LATENCY_MS ?? 500),
+    MOCK_VIDEO_DELAY_MS: Number(process.env.MOCK_VIDEO_DELAY_MS ?? 15000),
+    // Base URL of the Vertex AI API; point it at a local stub server for testing
+    VERTEX_API_BASE_URL:
+        process.env.VERTEX_API_BASE_URL ||
+        `https://${process.env.LOCATION || 'us-central1'}-aiplatform.googleapis.com`,
+    UPSTREAM_TIMEOUT_MS: Number(process.env.UPSTREAM_TIMEOUT_MS) || 120000,
+    // 0 disables retries; anything but a non-negative integer falls back to the default
+    UPSTREAM_MAX_RETRIES: /^\d+$/.test(process.env.UPSTREAM_MAX_RETRIES || '')
+        ? Number(process.env.UPSTREAM_MAX_RETRIES)
+        : 4,
+    UPSTREAM_RETRY_BASE_DELAY_MS: Number(process.env.UPSTREAM_RETRY_BASE_DELAY_MS) || 1000,
+    UPSTREAM_RETRY_MAX_DELAY_MS: Number(process.env.UPSTREAM_RETRY_MAX_DELAY_MS) || 30000,
+    UPSTREAM_CONCURRENCY: Number(process.env.UPSTREAM_CONCURRENCY) || 4, // Per model
+    // Per-model overrides, e.g. "veo-3.0-generate-001=1,imagen-3.0-generate-001=8"
+    UPSTREAM_CONCURRENCY_OVERRIDES: process.env.UPSTREAM_CONCURRENCY_OVERRIDES || '',
+    BATCH_CONCURRENCY: Number(process.env.BATCH_CONCURRENCY) || 2, // Rows in flight per batch
+    CIRCUIT_BREAKER_THRESHOLD: Number(process.env.CIRCUIT_BREAKER_THRESHOLD) || 5,
+    CIRCUIT_BREAKER_COOLDOWN_MS: Number(process.env.CIRCUIT_BREAKER_COOLDOWN_MS) || 30000,
+    // Static bearer token used as-is instead of Google credentials, e.g. for a local stand-in
+    ACCESS_TOKEN: process.env.VERTEX_ACCESS_TOKEN,
+    PRICING_FILE: process.env.PRICING_FILE, // JSON file overriding DEFAULT_PRICING per model
+    DAILY_BUDGET_USD: Number(process.env.DAILY_BUDGET_USD) || null, // Per UTC day
+    MONTHLY_BUDGET_USD: Number(process.env.MONTHLY_BUDGET_USD) || null, // Per UTC month
+    SESSION_TTL_DAYS: Number(process.env.SESSION_TTL_DAYS) || 30,
+    // Lets anyone create an account; otherwise only the first account and admins can
+    ALLOW_SIGNUP: process.env.ALLOW_SIGNUP === 'true',
+    // Video extension and sequences run these locally
+    FFMPEG_PATH: process.env.FFMPEG_PATH || 'ffmpeg',
+    FFPROBE_PATH: process.env.FFPROBE_PATH || 'ffprobe',
 } as const;
 
 const PATHS = {
     SERVICE_ACCOUNT_KEY: path.resolve(process.cwd(), 'service-account-key.json'),
     OUTPUTS: path.join(process.cwd(), 'outputs'),
-    METADATA: path.join(process.cwd(), 'outputs', 'metadata.json'),
+    DATABASE: path.join(process.cwd(), 'outputs', 'gallery.db'),
+    METADATA: path.join(process.cwd(), 'outputs', 'metadata.json'), // Legacy, imported once
+    JOBS: path.join(process.cwd(), 'outputs', 'jobs.json'), // Legacy, imported once
+    REFERENCES: path.join(process.cwd(), 'outputs', 'references'),
+    ORPHANED: path.join(process.cwd(), 'outputs', 'orphaned'),
 } as const;
 
 const CONSTRAINTS = {
@@ -90,595 +713,5967 @@ const CONSTRAINTS = {
     DEFAULT_ASPECT_RATIO: '1:1',
     DEFAULT_SAFETY_SETTING: 'block_medium_and_above',
     DEFAULT_PERSON_GENERATION: 'allow_adult',
+    MAX_REFERENCE_IMAGES: 4,
+    MAX_SEED: 2147483647,
+    MAX_VIDEO_SEED: 4294967295, // Veo takes any unsigned 32-bit seed
+    MAX_COMPRESSION_QUALITY: 100,
+    MAX_REFERENCE_IMAGE_BYTES: 10 * 1024 * 1024,
+    MAX_UPLOAD_BYTES: 10 * 1024 * 1024,
+    DEFAULT_VIDEO_ASPECT_RATIO: '16:9',
+    DEFAULT_VIDEO_DURATION: 8, // Veo 3 image-to-video supports 4, 6, or 8 seconds
+    VIDEO_POLL_MAX_ATTEMPTS: 120, // 10 minutes max with the default 5 second poll interval
+    DEFAULT_PAGE_SIZE: 20,
+    MAX_PAGE_SIZE: 100,
+    MIN_PASSWORD_LENGTH: 8,
+    MAX_BATCH_ROWS: 500,
+    MAX_BATCH_BYTES: 5 * 1024 * 1024,
+    MIN_SEQUENCE_TAKES: 2,
+    MAX_SEQUENCE_TAKES: 20,
+    MAX_CROSSFADE_SECONDS: 2,
+    MAX_UPSCALE_INPUT_BYTES: 10 * 1024 * 1024,
+    MAX_UPSCALE_OUTPUT_PIXELS: 17000000, // Imagen rejects upscales larger than about 17 megapixels
+} as const;
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/i;
+const SESSION_COOKIE = 'session';
+const API_KEY_PREFIX = 'vk_';
+
+// HTTP equivalents of the google.rpc codes that failed long-running operations report
+const RPC_CODE_HTTP_STATUSES: Record<number, number> = {
+    1: 499, // CANCELLED
+    2: 500, // UNKNOWN
+    3: 400, // INVALID_ARGUMENT
+    4: 504, // DEADLINE_EXCEEDED
+    5: 404, // NOT_FOUND
+    6: 409, // ALREADY_EXISTS
+    7: 403, // PERMISSION_DENIED
+    8: 429, // RESOURCE_EXHAUSTED
+    9: 400, // FAILED_PRECONDITION
+    10: 409, // ABORTED
+    11: 400, // OUT_OF_RANGE
+    12: 501, // UNIMPLEMENTED
+    13: 500, // INTERNAL
+    14: 503, // UNAVAILABLE
+    15: 500, // DATA_LOSS
+    16: 401, // UNAUTHENTICATED
+};
+
+// Network errors raised before a request reaches the upstream, so it is safe to send it again
+const UNDELIVERED_REQUEST_ERRORS = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+const EDIT_MODES: Record<EditMode, string> = {
+    'inpaint-insert': 'EDIT_MODE_INPAINT_INSERTION',
+    'inpaint-remove': 'EDIT_MODE_INPAINT_REMOVAL',
+    outpaint: 'EDIT_MODE_OUTPAINT',
+    'background-swap': 'EDIT_MODE_BGSWAP',
+};
+
+const MASK_MODES: Record<MaskMode, string> = {
+    user: 'MASK_MODE_USER_PROVIDED',
+    background: 'MASK_MODE_BACKGROUND',
+    foreground: 'MASK_MODE_FOREGROUND',
+    semantic: 'MASK_MODE_SEMANTIC',
+};
+
+const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'] as const;
+
+const VIDEO_ASPECT_RATIOS = ['16:9', '9:16'] as const;
+
+// Models that can be picked per request, in the order the UI lists them. A configured default
+// that is missing here still works, with the capabilities ModelService assumes for its role.
+const MODEL_REGISTRY: ModelInfo[] = [
+    {
+        id: 'imagen-3.0-generate-001',
+        name: 'Imagen 3',
+        operations: ['generate'],
+        aspectRatios: ASPECT_RATIOS,
+        maxSampleCount: 4,
+    },
+    {
+        id: 'imagen-3.0-generate-002',
+        name: 'Imagen 3 (002)',
+        operations: ['generate'],
+        aspectRatios: ASPECT_RATIOS,
+        maxSampleCount: 4,
+    },
+    {
+        id: 'imagen-3.0-fast-generate-001',
+        name: 'Imagen 3 Fast',
+        operations: ['generate'],
+        aspectRatios: ASPECT_RATIOS,
+        maxSampleCount: 4,
+    },
+    {
+        id: 'imagen-4.0-generate-001',
+        name: 'Imagen 4',
+        operations: ['generate'],
+        aspectRatios: ASPECT_RATIOS,
+        maxSampleCount: 4,
+    },
+    {
+        id: 'imagen-4.0-fast-generate-001',
+        name: 'Imagen 4 Fast',
+        operations: ['generate'],
+        aspectRatios: ASPECT_RATIOS,
+        maxSampleCount: 4,
+    },
+    {
+        id: 'imagen-4.0-ultra-generate-001',
+        name: 'Imagen 4 Ultra',
+        operations: ['generate'],
+        aspectRatios: ASPECT_RATIOS,
+        maxSampleCount: 1,
+    },
+    {
+        id: 'imagen-3.0-capability-001',
+        name: 'Imagen 3 Capability',
+        operations: ['customize', 'edit'],
+        aspectRatios: ASPECT_RATIOS,
+        maxSampleCount: 4,
+        editModes: ['inpaint-insert', 'inpaint-remove', 'outpaint', 'background-swap'],
+    },
+    {
+        id: 'imagen-4.0-upscale-preview',
+        name: 'Imagen 4 Upscale',
+        operations: ['upscale'],
+        aspectRatios: ASPECT_RATIOS,
+        maxSampleCount: 1,
+    },
+    {
+        id: 'veo-2.0-generate-001',
+        name: 'Veo 2',
+        operations: ['video'],
+        aspectRatios: VIDEO_ASPECT_RATIOS,
+        maxSampleCount: 4,
+        durations: [5, 6, 7, 8],
+        audio: false,
+        videoModes: ['text', 'image', 'frames', 'extend'],
+        resolutions: ['720p'],
+    },
+    {
+        id: 'veo-3.0-generate-001',
+        name: 'Veo 3',
+        operations: ['video'],
+        aspectRatios: VIDEO_ASPECT_RATIOS,
+        maxSampleCount: 4,
+        durations: [4, 6, 8],
+        audio: true,
+        videoModes: ['text', 'image', 'extend'],
+        resolutions: ['720p', '1080p'],
+    },
+    {
+        id: 'veo-3.0-fast-generate-001',
+        name: 'Veo 3 Fast',
+        operations: ['video'],
+        aspectRatios: VIDEO_ASPECT_RATIOS,
+        maxSampleCount: 4,
+        durations: [4, 6, 8],
+        audio: true,
+        videoModes: ['text', 'image', 'extend'],
+        resolutions: ['720p', '1080p'],
+    },
+];
+
+const VIDEO_MODE_NAMES: Record<VideoMode, string> = {
+    text: 'text-to-video',
+    image: 'image-to-video',
+    frames: 'first and last frame video',
+    extend: 'video extension',
+};
+
+const MODEL_OPERATION_NAMES: Record<ModelOperation, string> = {
+    generate: 'image generation',
+    customize: 'generation with reference images',
+    edit: 'image editing',
+    upscale: 'image upscaling',
+    video: 'video generation',
+};
+
+const SUPPORTED_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const UPSCALE_FACTORS: Record<UpscaleFactor, number> = { x2: 2, x4: 4 };
+
+const OUTPUT_MIME_TYPES: readonly OutputMimeType[] = ['image/png', 'image/jpeg'];
+
+// Prompt languages Imagen understands
+const PROMPT_LANGUAGES = ['auto', 'en', 'es', 'hi', 'ja', 'ko', 'pt', 'zh', 'zh-CN', 'zh-TW'];
+
+const SUBJECT_TYPES: Record<SubjectType, string> = {
+    person: 'SUBJECT_TYPE_PERSON',
+    animal: 'SUBJECT_TYPE_ANIMAL',
+    product: 'SUBJECT_TYPE_PRODUCT',
+    default: 'SUBJECT_TYPE_DEFAULT',
+};
+
+const AUTH_SCOPES = ['https://www.googleapis.com/auth/cloud-platform'];
+const ACCESS_TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000; // Refresh this long before expiry
+const ACCESS_TOKEN_DEFAULT_LIFETIME_MS = 55 * 60 * 1000; // When the client reports no expiry
+
+// Estimates only; check current Vertex AI pricing and override with PRICING_FILE
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+    'imagen-3.0-generate-001': { perImage: 0.04 },
+    'imagen-3.0-generate-002': { perImage: 0.04 },
+    'imagen-3.0-fast-generate-001': { perImage: 0.02 },
+    'imagen-3.0-capability-001': { perImage: 0.04 },
+    'imagen-4.0-generate-001': { perImage: 0.04 },
+    'imagen-4.0-fast-generate-001': { perImage: 0.02 },
+    'imagen-4.0-ultra-generate-001': { perImage: 0.06 },
+    'imagen-4.0-upscale-preview': { perImage: 0.06 },
+    'veo-2.0-generate-001': { perSecond: 0.5 },
+    'veo-3.0-generate-001': { perSecond: 0.2, perSecondWithAudio: 0.4 },
+    'veo-3.0-fast-generate-001': { perSecond: 0.1, perSecondWithAudio: 0.15 },
+};
+
+// Applied on every start; statements must stay idempotent
+const DATABASE_SCHEMA = `
+    CREATE TABLE IF NOT EXISTS generations (
+        id INTEGER PRIMARY KEY,
+        origin TEXT NOT NULL DEFAULT 'generated',
+        original_filename TEXT,
+        enhanced_prompt TEXT,
+        current_version_id INTEGER,
+        created_at TEXT NOT NULL
+    );
+
+    -- Every generation id ever handed out, so ids stay unique across processes and after purges
+    CREATE TABLE IF NOT EXISTS generation_ids (
+        id INTEGER PRIMARY KEY
+    );
+
+    CREATE TABLE IF NOT EXISTS versions (
+        generation_id INTEGER NOT NULL REFERENCES generations (id) ON DELETE CASCADE,
+        id INTEGER NOT NULL,
+        parent_id INTEGER,
+        operation TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        enhanced_prompt TEXT,
+        parameters TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (generation_id, id)
+    );
+
+    CREATE TABLE IF NOT EXISTS prompts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        generation_id INTEGER NOT NULL REFERENCES generations (id) ON DELETE CASCADE,
+        kind TEXT NOT NULL CHECK (kind IN ('image', 'video')),
+        prompt TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS assets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        generation_id INTEGER NOT NULL REFERENCES generations (id) ON DELETE CASCADE,
+        version_id INTEGER,
+        kind TEXT NOT NULL CHECK (kind IN ('image', 'video')),
+        url TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS takes (
+        asset_id INTEGER PRIMARY KEY REFERENCES assets (id) ON DELETE CASCADE,
+        job_id TEXT,
+        prompt TEXT,
+        model TEXT,
+        parameters TEXT NOT NULL,
+        source_version_id INTEGER,
+        source_image TEXT,
+        starred INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        generation_id INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        params TEXT NOT NULL,
+        operation_name TEXT,
+        video_url TEXT,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        generation_id INTEGER,
+        model TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        sample_count INTEGER NOT NULL,
+        output_count INTEGER NOT NULL,
+        duration_seconds INTEGER,
+        generate_audio INTEGER NOT NULL DEFAULT 0,
+        outcome TEXT NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        estimated_cost_usd REAL NOT NULL,
+        created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        is_admin INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS api_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS shares (
+        generation_id INTEGER NOT NULL REFERENCES generations (id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (generation_id, user_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS batches (
+        id TEXT PRIMARY KEY,
+        owner_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS batch_rows (
+        batch_id TEXT NOT NULL REFERENCES batches (id) ON DELETE CASCADE,
+        line INTEGER NOT NULL,
+        input TEXT NOT NULL,
+        status TEXT NOT NULL,
+        generation_id INTEGER,
+        edit_version_id INTEGER,
+        video_job_id TEXT,
+        error TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (batch_id, line)
+    );
+
+    CREATE TABLE IF NOT EXISTS migrations (
+        name TEXT PRIMARY KEY,
+        applied_at TEXT NOT NULL
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS prompts_fts USING fts5 (
+        prompt,
+        content = 'prompts',
+        content_rowid = 'id'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS prompts_fts_insert AFTER INSERT ON prompts BEGIN
+        INSERT INTO prompts_fts (rowid, prompt) VALUES (new.id, new.prompt);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS prompts_fts_delete AFTER DELETE ON prompts BEGIN
+        INSERT INTO prompts_fts (prompts_fts, rowid, prompt) VALUES ('delete', old.id, old.prompt);
+    END;
+
+    CREATE INDEX IF NOT EXISTS idx_prompts_generation ON prompts (generation_id, kind);
+    CREATE INDEX IF NOT EXISTS idx_assets_generation ON assets (generation_id, kind);
+    CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs (status);
+    CREATE INDEX IF NOT EXISTS idx_usage_created ON usage (created_at);
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id);
+    CREATE INDEX IF NOT EXISTS idx_shares_user ON shares (user_id);
+    CREATE INDEX IF NOT EXISTS idx_batch_rows_status ON batch_rows (status);
+`;
+
+// One-off data migrations, applied in order and recorded in the migrations table
+const DATABASE_MIGRATIONS: Array<{ name: string; sql: string }> = [
+    {
+        name: 'index-existing-prompts',
+        sql: "INSERT INTO prompts_fts (prompts_fts) VALUES ('rebuild')",
+    },
+    {
+        name: 'add-trash',
+        sql: `
+            ALTER TABLE generations ADD COLUMN deleted_at TEXT;
+            ALTER TABLE assets ADD COLUMN deleted_at TEXT;
+            CREATE INDEX idx_generations_deleted ON generations (deleted_at);
+            CREATE INDEX idx_assets_deleted ON assets (deleted_at);
+        `,
+    },
+    {
+        name: 'add-owners',
+        sql: `
+            ALTER TABLE generations ADD COLUMN owner_id INTEGER REFERENCES users (id);
+            CREATE INDEX idx_generations_owner ON generations (owner_id);
+        `,
+    },
+    {
+        name: 'add-version-model',
+        sql: 'ALTER TABLE versions ADD COLUMN model TEXT;',
+    },
+];
+
+// Prompt directives understood by the mock provider to simulate upstream behaviour
+const MOCK_DIRECTIVES = {
+    SAFETY_FILTER: '[mock:safety]', // Output is blocked by safety filters
+    OPERATION_ERROR: '[mock:operation-error]', // Veo operation finishes with an error
+    HTTP_ERROR: /\[mock:error:(\d{3})\]/, // Upstream responds with the given HTTP status
 } as const;
 
 // ============================================================================
-// Utility Functions
+// Errors
 // ============================================================================
 
-class FileUtils {
-    static ensureDirectoryExists(dirPath: string): void {
-        if (!fs.existsSync(dirPath)) {
-            fs.mkdirSync(dirPath, { recursive: true });
-        }
+// Base for errors with a response of their own. The error middleware sends statusCode and code,
+// plus Retry-After when a subclass has retryAfterMs; anything else becomes a 500 without its internals.
+class AppError extends Error {
+    get statusCode(): number {
+        return 500;
     }
 
-    static imageToBase64(filePath: string): string {
-        if (!fs.existsSync(filePath)) {
-            throw new Error(`File not found at path: ${filePath}`);
-        }
-        const fileBuffer = fs.readFileSync(filePath);
-        return fileBuffer.toString('base64');
+    get code(): ErrorCode {
+        return 'INTERNAL_ERROR';
     }
 
-    static extractGenerationId(filename: string): number | null {
-        // Match result-{id} or result-{id}-{suffix} patterns
-        // Examples: result-123.png, result-123-video.mp4
-        const match = filename.match(/^result-(\d+)(?:-.*)?\./);
-        return match ? parseInt(match[1], 10) : null;
+    // Extra fields for the response body
+    get details(): Record<string, unknown> | undefined {
+        return undefined;
     }
+}
 
-    static getFileExtension(mimeType: string): string {
-        return mimeType.split('/')[1] || 'png';
+// Request that cannot be served as sent
+class ValidationError extends AppError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+
+    get statusCode(): number {
+        return 400;
+    }
+
+    get code(): ErrorCode {
+        return 'VALIDATION_FAILED';
     }
 }
 
-class ValidationUtils {
-    static validatePrompt(prompt: unknown): string {
-        if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
-            throw new Error('Prompt is required and must be a non-empty string');
-        }
-        return prompt.trim();
+class AuthenticationError extends AppError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthenticationError';
     }
 
-    static validateImagePath(imagePath: unknown): string {
-        if (!imagePath || typeof imagePath !== 'string') {
-            throw new Error('Image path is required');
-        }
-        return imagePath;
+    get statusCode(): number {
+        return 401;
     }
 
-    static validateSampleCount(sampleCount: unknown): number {
-        const count = parseInt(String(sampleCount || CONSTRAINTS.DEFAULT_SAMPLE_COUNT), 10);
-        return Math.max(
-            CONSTRAINTS.MIN_SAMPLE_COUNT,
-            Math.min(CONSTRAINTS.MAX_SAMPLE_COUNT, count)
-        );
+    get code(): ErrorCode {
+        return 'UNAUTHENTICATED';
     }
 }
 
-// ============================================================================
-// Services
-// ============================================================================
-
-class AuthenticationService {
-    static async getAccessToken(): Promise<string> {
-        const auth = new GoogleAuth({
-            keyFilename: PATHS.SERVICE_ACCOUNT_KEY,
-            scopes: ['https://www.googleapis.com/auth/cloud-platform'],
-        });
-        const client = await auth.getClient();
-        const accessToken = await client.getAccessToken();
+class ForbiddenError extends AppError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ForbiddenError';
+    }
 
-        if (!accessToken.token) {
-            throw new Error('Failed to obtain access token');
-        }
+    get statusCode(): number {
+        return 403;
+    }
 
-        return accessToken.token;
+    get code(): ErrorCode {
+        return 'FORBIDDEN';
     }
 }
 
-abstract class BaseAPIService {
-    protected static validateConfig(): void {
-        if (!CONFIG.PROJECT_ID || !CONFIG.LOCATION) {
-            throw new Error('PROJECT_ID and LOCATION must be set in environment variables');
-        }
+class NotFoundError extends AppError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NotFoundError';
     }
 
-    protected static buildBaseUrl(model: string): string {
-        this.validateConfig();
-        return `https://${CONFIG.LOCATION}-aiplatform.googleapis.com/v1/projects/${CONFIG.PROJECT_ID}/locations/${CONFIG.LOCATION}/publishers/google/models/${model}`;
+    get statusCode(): number {
+        return 404;
     }
 
-    protected static buildApiEndpoint(model: string, suffix: string): string {
-        return `${this.buildBaseUrl(model)}:${suffix}`;
+    get code(): ErrorCode {
+        return 'NOT_FOUND';
     }
+}
 
-    protected static async makeApiRequest<T>(
-        endpoint: string,
-        requestBody: unknown,
-        apiName: string = 'API'
-    ): Promise<T> {
-        const accessToken = await AuthenticationService.getAccessToken();
-
-        const response = await fetch(endpoint, {
-            method: 'POST',
-            headers: {
-                Authorization: `Bearer ${accessToken}`,
-                'Content-Type': 'application/json; charset=utf-8',
-            },
-            body: JSON.stringify(requestBody),
-        });
+// HTTP error or network failure from the upstream API; status is missing for network errors.
+// The raw response body is kept for the logs but never sent to clients.
+class UpstreamError extends AppError {
+    constructor(
+        message: string,
+        readonly status?: number,
+        readonly retryAfterMs?: number,
+        readonly body?: string,
+        readonly maybeDelivered: boolean = true // False when the request never left this server
+    ) {
+        super(message);
+        this.name = 'UpstreamError';
+    }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(
-                `${apiName} API error: ${response.status} ${response.statusText}. ${errorText}`
-            );
-        }
+    get retryable(): boolean {
+        return this.status === undefined || this.status === 429 || this.status >= 500;
+    }
 
-        return (await response.json()) as T;
+    // Network errors and 5xx mean the upstream is unavailable; other statuses are our problem
+    get statusCode(): number {
+        return this.status === undefined || this.status >= 500 ? 503 : 502;
     }
-}
 
-class ImageGenerationService extends BaseAPIService {
-    private static buildPredictEndpoint(model: string): string {
-        return super.buildApiEndpoint(model, 'predict');
+    get code(): ErrorCode {
+        return this.statusCode === 503 ? 'UPSTREAM_UNAVAILABLE' : 'UPSTREAM_ERROR';
     }
 
-    private static async makeImagenApiRequest(
-        endpoint: string,
-        requestBody: unknown
-    ): Promise<APIResponse> {
-        const responseData = await super.makeApiRequest<APIResponse>(
-            endpoint,
-            requestBody,
-            'Imagen'
-        );
+    // Parses a failed Vertex AI response ({ error: { code, message, status } }) into its error type
+    static fromResponse(
+        apiName: string,
+        status: number,
+        statusText: string,
+        body: string,
+        retryAfterMs?: number
+    ): UpstreamError {
+        let upstream: { message?: string; status?: string } | undefined;
+        try {
+            upstream = JSON.parse(body)?.error;
+        } catch {
+            // Not JSON, e.g. an HTML error page from a proxy
+        }
+
+        const message = `${apiName} API error: ${status} ${upstream?.message || statusText}`;
 
-        if (!responseData.predictions || responseData.predictions.length === 0) {
-            throw new Error('Imagen API returned no predictions');
+        if (status === 429 || upstream?.status === 'RESOURCE_EXHAUSTED') {
+            return new RateLimitedError(message, status, retryAfterMs, body);
         }
+        if (status === 401 || status === 403) {
+            return new AuthMisconfiguredError(message, status, body);
+        }
+        // Prompts rejected up front by the responsible AI filters come back as 400s
+        if (
+            status === 400 &&
+            /responsible ai|sensitive words|safety/i.test(upstream?.message || '')
+        ) {
+            return new SafetyFilteredError(message, status, body);
+        }
+        return new UpstreamError(message, status, retryAfterMs, body);
+    }
+}
 
-        return responseData;
+// Output or prompt blocked by the upstream safety filters
+class SafetyFilteredError extends UpstreamError {
+    constructor(message: string, status?: number, body?: string) {
+        super(message, status, undefined, body);
+        this.name = 'SafetyFilteredError';
     }
 
-    static async generateImage(
-        prompt: string,
-        sampleCount: number = CONSTRAINTS.DEFAULT_SAMPLE_COUNT,
-        aspectRatio: string = CONSTRAINTS.DEFAULT_ASPECT_RATIO,
-        safetySetting: string = CONSTRAINTS.DEFAULT_SAFETY_SETTING,
-        personGeneration: string = CONSTRAINTS.DEFAULT_PERSON_GENERATION
-    ): Promise<PredictionResponse[]> {
-        const apiEndpoint = this.buildPredictEndpoint(CONFIG.IMAGEN_MODEL);
+    get retryable(): boolean {
+        return false;
+    }
 
-        const requestBody = {
-            instances: [{ prompt }],
-            parameters: {
-                sampleCount: ValidationUtils.validateSampleCount(sampleCount),
-                aspectRatio,
-                safetySetting,
-                personGeneration,
-            },
-        };
+    get statusCode(): number {
+        return 422;
+    }
 
-        const responseData = await this.makeImagenApiRequest(apiEndpoint, requestBody);
+    get code(): ErrorCode {
+        return 'SAFETY_BLOCKED';
+    }
+}
 
-        return responseData.predictions!.map((pred) => ({
-            mimeType: pred.mimeType || 'image/png',
-            bytesBase64Encoded: pred.bytesBase64Encoded || '',
-            prompt: pred.prompt,
-        }));
+// Upstream quota or rate limit; retried with backoff before it reaches the client
+class RateLimitedError extends UpstreamError {
+    constructor(message: string, status?: number, retryAfterMs?: number, body?: string) {
+        super(message, status, retryAfterMs, body);
+        this.name = 'RateLimitedError';
+    }
+
+    get statusCode(): number {
+        return 429;
+    }
+
+    get code(): ErrorCode {
+        return 'RATE_LIMITED';
+    }
+}
+
+// Missing or rejected Google Cloud credentials or project settings; only the server admin can fix it
+class AuthMisconfiguredError extends UpstreamError {
+    constructor(message: string, status?: number, body?: string) {
+        super(message, status, undefined, body);
+        this.name = 'AuthMisconfiguredError';
+    }
+
+    get retryable(): boolean {
+        return false;
+    }
+
+    get statusCode(): number {
+        return 503;
+    }
+
+    get code(): ErrorCode {
+        return 'AUTH_MISCONFIGURED';
+    }
+}
+
+class CircuitOpenError extends AppError {
+    constructor(
+        name: string,
+        readonly retryAfterMs: number
+    ) {
+        super(
+            `${name} is temporarily unavailable after repeated failures. ` +
+                `Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+        );
+        this.name = 'CircuitOpenError';
+    }
+
+    get statusCode(): number {
+        return 503;
+    }
+
+    get code(): ErrorCode {
+        return 'UPSTREAM_UNAVAILABLE';
+    }
+}
+
+// ffmpeg or ffprobe cannot be run; only the server admin can fix it
+class MediaUnavailableError extends AppError {
+    constructor(tool: string) {
+        super(`${tool} is not available on the server, so videos cannot be processed`);
+        this.name = 'MediaUnavailableError';
+    }
+
+    get statusCode(): number {
+        return 503;
+    }
+
+    get code(): ErrorCode {
+        return 'MEDIA_UNAVAILABLE';
+    }
+}
+
+// Invalid or conflicting account details, such as a taken username or a short password
+class AccountError extends ValidationError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AccountError';
+    }
+}
+
+// Batch file that could not be parsed; lists every problem with its line number
+class InvalidBatchError extends ValidationError {
+    constructor(readonly problems: string[]) {
+        super(`The batch file has ${problems.length} invalid row(s)`);
+        this.name = 'InvalidBatchError';
+    }
+
+    get details(): Record<string, unknown> {
+        return { problems: this.problems };
+    }
+}
+
+class InvalidQueryError extends ValidationError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidQueryError';
+    }
+}
+
+// Sent as 402 with the budget that was hit; Retry-After points at the moment it resets
+class BudgetExceededError extends AppError {
+    constructor(
+        readonly period: 'daily' | 'monthly',
+        readonly status: BudgetStatus
+    ) {
+        super(
+            `The ${period} budget of $${status.limitUsd?.toFixed(2)} would be exceeded ` +
+                `($${(status.spentUsd + status.pendingUsd).toFixed(2)} spent or reserved). ` +
+                `It resets at ${status.resetsAt}.`
+        );
+        this.name = 'BudgetExceededError';
+    }
+
+    get retryAfterMs(): number {
+        return Math.max(Date.parse(this.status.resetsAt) - Date.now(), 0);
+    }
+
+    get statusCode(): number {
+        return 402;
+    }
+
+    get code(): ErrorCode {
+        return 'BUDGET_EXCEEDED';
+    }
+
+    get details(): Record<string, unknown> {
+        return { budget: { period: this.period, ...this.status } };
+    }
+}
+
+class UploadTypeError extends ValidationError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UploadTypeError';
+    }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+class FileUtils {
+    static ensureDirectoryExists(dirPath: string): void {
+        if (!fs.existsSync(dirPath)) {
+            fs.mkdirSync(dirPath, { recursive: true });
+        }
+    }
+
+    static imageToBase64(filePath: string): string {
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`File not found at path: ${filePath}`);
+        }
+        const fileBuffer = fs.readFileSync(filePath);
+        return fileBuffer.toString('base64');
+    }
+
+    static extractGenerationId(filename: string): number | null {
+        // Match result-{id} or result-{id}-{suffix} patterns
+        // Examples: result-123.png, result-123-video.mp4
+        const match = filename.match(/^result-(\d+)(?:-.*)?\./);
+        return match ? parseInt(match[1], 10) : null;
+    }
+
+    // Maps an /outputs/... URL to its path on disk, refusing anything that resolves outside outputs/
+    static outputUrlToPath(url: string): string {
+        const fullPath = path.resolve(PATHS.OUTPUTS, url.replace(/^\/?outputs\//, ''));
+        const relativePath = path.relative(PATHS.OUTPUTS, fullPath);
+
+        if (
+            !relativePath ||
+            relativePath.split(path.sep)[0] === '..' ||
+            path.isAbsolute(relativePath)
+        ) {
+            throw new ValidationError(`Not a file in outputs/: ${url}`);
+        }
+        return fullPath;
+    }
+
+    static removeOutputFile(url: string): void {
+        fs.rmSync(this.outputUrlToPath(url), { force: true });
+    }
+
+    static getFileExtension(mimeType: string): string {
+        return mimeType.split('/')[1] || 'png';
+    }
+
+    // Detects the real image format from its magic bytes, regardless of the file name
+    static detectImageMimeType(buffer: Buffer): string | null {
+        if (
+            buffer
+                .subarray(0, 8)
+                .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+        ) {
+            return 'image/png';
+        }
+        if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+            return 'image/jpeg';
+        }
+        if (
+            buffer.subarray(0, 4).toString('ascii') === 'RIFF' &&
+            buffer.subarray(8, 12).toString('ascii') === 'WEBP'
+        ) {
+            return 'image/webp';
+        }
+        return null;
+    }
+}
+
+class ValidationUtils {
+    static validatePrompt(prompt: unknown): string {
+        if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+            throw new ValidationError('Prompt is required and must be a non-empty string');
+        }
+        return prompt.trim();
+    }
+
+    // generationId + assetId, or the deprecated imagePath when neither id is sent
+    static validateImageReference(body: {
+        generationId?: unknown;
+        assetId?: unknown;
+        imagePath?: unknown;
+    }): ImageReference {
+        if (body.generationId === undefined && body.assetId === undefined) {
+            if (!body.imagePath || typeof body.imagePath !== 'string') {
+                throw new ValidationError('generationId and assetId are required');
+            }
+            return { imagePath: body.imagePath };
+        }
+
+        const generationId = Number(body.generationId);
+        const assetId = Number(body.assetId);
+        if (!Number.isSafeInteger(generationId) || !Number.isSafeInteger(assetId)) {
+            throw new ValidationError('generationId and assetId must both be integers');
+        }
+        return { generationId, assetId };
+    }
+
+    static validateTakeReference(body: { generationId?: unknown; takeId?: unknown }): {
+        generationId: number;
+        takeId: number;
+    } {
+        const generationId = Number(body.generationId);
+        const takeId = Number(body.takeId);
+        if (!Number.isSafeInteger(generationId) || !Number.isSafeInteger(takeId)) {
+            throw new ValidationError('generationId and takeId must both be integers');
+        }
+        return { generationId, takeId };
+    }
+
+    static validateSequence(body: CreateSequenceRequest): Required<CreateSequenceRequest> {
+        if (!Array.isArray(body.takes)) {
+            throw new ValidationError('takes must be a list of { generationId, takeId }');
+        }
+        if (
+            body.takes.length < CONSTRAINTS.MIN_SEQUENCE_TAKES ||
+            body.takes.length > CONSTRAINTS.MAX_SEQUENCE_TAKES
+        ) {
+            throw new ValidationError(
+                `A sequence has ${CONSTRAINTS.MIN_SEQUENCE_TAKES} to ` +
+                    `${CONSTRAINTS.MAX_SEQUENCE_TAKES} takes`
+            );
+        }
+
+        const crossfade = Number(body.crossfade ?? 0);
+        if (
+            !Number.isFinite(crossfade) ||
+            crossfade < 0 ||
+            crossfade > CONSTRAINTS.MAX_CROSSFADE_SECONDS
+        ) {
+            throw new ValidationError(
+                `crossfade must be between 0 and ${CONSTRAINTS.MAX_CROSSFADE_SECONDS} seconds`
+            );
+        }
+        if (body.title !== undefined && typeof body.title !== 'string') {
+            throw new ValidationError('title must be a string');
+        }
+
+        return {
+            takes: body.takes.map((take) => this.validateTakeReference(take ?? {})),
+            crossfade,
+            title: body.title?.trim() || `Sequence of ${body.takes.length} clips`,
+        };
+    }
+
+    static validateSampleCount(sampleCount: unknown): number {
+        const count = parseInt(String(sampleCount || CONSTRAINTS.DEFAULT_SAMPLE_COUNT), 10);
+        return Math.max(
+            CONSTRAINTS.MIN_SAMPLE_COUNT,
+            Math.min(CONSTRAINTS.MAX_SAMPLE_COUNT, count)
+        );
+    }
+
+    static validateAspectRatio(aspectRatio: unknown): string {
+        if (
+            typeof aspectRatio !== 'string' ||
+            !(ASPECT_RATIOS as readonly string[]).includes(aspectRatio)
+        ) {
+            throw new ValidationError(`Aspect ratio must be one of: ${ASPECT_RATIOS.join(', ')}`);
+        }
+        return aspectRatio;
+    }
+
+    // Resolves the requested model, or the configured default, and checks it can do the operation
+    static validateModel(model: unknown, operation: ModelOperation): ModelInfo {
+        if (model !== undefined && model !== null && typeof model !== 'string') {
+            throw new ValidationError('model must be a string');
+        }
+
+        const id = model || ModelService.getDefaultModelId(operation);
+        const info = ModelService.getModel(id);
+
+        if (!info) {
+            throw new ValidationError(
+                `Unknown model "${id}"; GET /api/models lists the available models`
+            );
+        }
+        if (!info.operations.includes(operation)) {
+            throw new ValidationError(`${id} does not support ${MODEL_OPERATION_NAMES[operation]}`);
+        }
+        return info;
+    }
+
+    static validateModelOptions(
+        model: ModelInfo,
+        options: {
+            aspectRatio?: string;
+            sampleCount?: number;
+            editMode?: EditMode;
+            duration?: number;
+            generateAudio?: boolean;
+            videoMode?: VideoMode;
+            resolution?: string;
+        }
+    ): void {
+        const {
+            aspectRatio,
+            sampleCount,
+            editMode,
+            duration,
+            generateAudio,
+            videoMode,
+            resolution,
+        } = options;
+
+        if (aspectRatio !== undefined && !model.aspectRatios.includes(aspectRatio)) {
+            throw new ValidationError(
+                `${model.id} supports the aspect ratios ${model.aspectRatios.join(', ')}`
+            );
+        }
+        if (sampleCount !== undefined && sampleCount > model.maxSampleCount) {
+            throw new ValidationError(
+                `${model.id} returns at most ${model.maxSampleCount} ` +
+                    `${model.operations.includes('video') ? 'video(s)' : 'image(s)'} per request`
+            );
+        }
+        if (editMode !== undefined && !model.editModes?.includes(editMode)) {
+            throw new ValidationError(`${model.id} does not support the ${editMode} edit mode`);
+        }
+        if (duration !== undefined && model.durations && !model.durations.includes(duration)) {
+            throw new ValidationError(
+                `${model.id} supports durations of ${model.durations.join(', ')} seconds`
+            );
+        }
+        if (generateAudio !== undefined && typeof generateAudio !== 'boolean') {
+            throw new ValidationError('generateAudio must be true or false');
+        }
+        if (generateAudio && !model.audio) {
+            throw new ValidationError(`${model.id} does not generate audio`);
+        }
+        if (videoMode !== undefined && model.videoModes && !model.videoModes.includes(videoMode)) {
+            throw new ValidationError(
+                `${model.id} does not support ${VIDEO_MODE_NAMES[videoMode]}; ` +
+                    `it supports ${model.videoModes.map((mode) => VIDEO_MODE_NAMES[mode]).join(', ')}`
+            );
+        }
+        if (resolution !== undefined && !(model.resolutions ?? ['720p']).includes(resolution)) {
+            throw new ValidationError(
+                `${model.id} supports the resolutions ${(model.resolutions ?? ['720p']).join(', ')}`
+            );
+        }
+    }
+
+    // Video modes and the optional Veo parameters
+    static validateVideoOptions(body: GenerateVideoRequest): {
+        mode: VideoMode;
+        options: VideoGenerationOptions;
+    } {
+        const mode = body.mode ?? 'image';
+        if (!(Object.keys(VIDEO_MODE_NAMES) as VideoMode[]).includes(mode)) {
+            throw new ValidationError(
+                `mode must be one of: ${Object.keys(VIDEO_MODE_NAMES).join(', ')}`
+            );
+        }
+
+        const options: VideoGenerationOptions = {};
+        const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+        if (isSet(body.negativePrompt)) {
+            if (typeof body.negativePrompt !== 'string') {
+                throw new ValidationError('negativePrompt must be a string');
+            }
+            options.negativePrompt = body.negativePrompt.trim() || undefined;
+        }
+        if (isSet(body.resolution)) {
+            options.resolution = String(body.resolution);
+        }
+        if (isSet(body.seed)) {
+            const seed = Number(body.seed);
+            if (!Number.isInteger(seed) || seed < 0 || seed > CONSTRAINTS.MAX_VIDEO_SEED) {
+                throw new ValidationError(
+                    `seed must be an integer between 0 and ${CONSTRAINTS.MAX_VIDEO_SEED}`
+                );
+            }
+            options.seed = seed;
+        }
+        if (isSet(body.sampleCount)) {
+            options.sampleCount = this.validateSampleCount(body.sampleCount);
+        }
+
+        return { mode, options };
+    }
+
+    static validateReferences(references: unknown, prompt: string): ReferenceImageInput[] {
+        if (references === undefined) {
+            return [];
+        }
+
+        if (!Array.isArray(references)) {
+            throw new ValidationError('references must be an array');
+        }
+
+        if (references.length > CONSTRAINTS.MAX_REFERENCE_IMAGES) {
+            throw new ValidationError(
+                `At most ${CONSTRAINTS.MAX_REFERENCE_IMAGES} reference images are supported`
+            );
+        }
+
+        const referenceIds = new Set<number>();
+        const validated = references.map((reference: ReferenceImageInput) => {
+            const referenceId = Number(reference?.referenceId);
+            if (!Number.isInteger(referenceId) || referenceId < 1) {
+                throw new ValidationError('Each reference needs a positive integer referenceId');
+            }
+            if (referenceIds.has(referenceId)) {
+                throw new ValidationError(`Duplicate referenceId [${referenceId}]`);
+            }
+            referenceIds.add(referenceId);
+
+            if (reference.type !== 'subject' && reference.type !== 'style') {
+                throw new ValidationError(
+                    `Reference [${referenceId}] type must be "subject" or "style"`
+                );
+            }
+            if (reference.subjectType !== undefined && !(reference.subjectType in SUBJECT_TYPES)) {
+                throw new ValidationError(
+                    `Reference [${referenceId}] subjectType must be one of: ${Object.keys(SUBJECT_TYPES).join(', ')}`
+                );
+            }
+            if (typeof reference.description !== 'string' || !reference.description.trim()) {
+                throw new ValidationError(`Reference [${referenceId}] needs a description`);
+            }
+            if (!reference.imagePath === !reference.imageData) {
+                throw new ValidationError(
+                    `Reference [${referenceId}] needs either imagePath or imageData`
+                );
+            }
+            if (!prompt.includes(`[${referenceId}]`)) {
+                throw new ValidationError(`The prompt must refer to reference [${referenceId}]`);
+            }
+
+            return {
+                referenceId,
+                type: reference.type,
+                subjectType:
+                    reference.type === 'subject' ? reference.subjectType || 'default' : undefined,
+                description: reference.description.trim(),
+                imagePath: reference.imagePath,
+                imageData: reference.imageData,
+            };
+        });
+
+        // Every [n] in the prompt must point at an attached reference
+        const mentionedIds = Array.from(prompt.matchAll(/\[(\d+)\]/g), (match) => Number(match[1]));
+        const missingId = mentionedIds.find((id) => !referenceIds.has(id));
+        if (validated.length > 0 && missingId !== undefined) {
+            throw new ValidationError(
+                `The prompt refers to [${missingId}] but no such reference is attached`
+            );
+        }
+
+        return validated;
+    }
+
+    // Returns only the options that were set, so stored parameters show what was asked for
+    static validateGenerationOptions(body: ImageGenerationOptions): ImageGenerationOptions {
+        const options: ImageGenerationOptions = {};
+        const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+        if (isSet(body.negativePrompt)) {
+            if (typeof body.negativePrompt !== 'string') {
+                throw new ValidationError('negativePrompt must be a string');
+            }
+            options.negativePrompt = body.negativePrompt.trim() || undefined;
+        }
+
+        for (const name of ['enhancePrompt', 'addWatermark'] as const) {
+            if (isSet(body[name])) {
+                if (typeof body[name] !== 'boolean') {
+                    throw new ValidationError(`${name} must be true or false`);
+                }
+                options[name] = body[name];
+            }
+        }
+
+        if (isSet(body.seed)) {
+            const seed = Number(body.seed);
+            if (!Number.isInteger(seed) || seed < 1 || seed > CONSTRAINTS.MAX_SEED) {
+                throw new ValidationError(
+                    `seed must be an integer between 1 and ${CONSTRAINTS.MAX_SEED}`
+                );
+            }
+            if (options.addWatermark !== false) {
+                throw new ValidationError('seed only works with addWatermark set to false');
+            }
+            options.seed = seed;
+        }
+
+        if (isSet(body.language)) {
+            if (!PROMPT_LANGUAGES.includes(String(body.language))) {
+                throw new ValidationError(
+                    `language must be one of: ${PROMPT_LANGUAGES.join(', ')}`
+                );
+            }
+            options.language = body.language;
+        }
+
+        if (isSet(body.outputMimeType)) {
+            if (!OUTPUT_MIME_TYPES.includes(body.outputMimeType!)) {
+                throw new ValidationError(
+                    `outputMimeType must be one of: ${OUTPUT_MIME_TYPES.join(', ')}`
+                );
+            }
+            options.outputMimeType = body.outputMimeType;
+        }
+
+        if (isSet(body.compressionQuality)) {
+            const quality = Number(body.compressionQuality);
+            if (
+                !Number.isInteger(quality) ||
+                quality < 0 ||
+                quality > CONSTRAINTS.MAX_COMPRESSION_QUALITY
+            ) {
+                throw new ValidationError(
+                    `compressionQuality must be an integer between 0 and ${CONSTRAINTS.MAX_COMPRESSION_QUALITY}`
+                );
+            }
+            if (options.outputMimeType !== 'image/jpeg') {
+                throw new ValidationError(
+                    'compressionQuality only applies to outputMimeType image/jpeg'
+                );
+            }
+            options.compressionQuality = quality;
+        }
+
+        return options;
+    }
+
+    // Checks that mask and edit mode options fit together; returns undefined for free-form edits
+    static validateEditMode(body: EditImageRequest): EditMode | undefined {
+        const { editMode, maskMode, maskImage, outpaintAspectRatio } = body;
+
+        if (editMode === undefined) {
+            if (maskMode !== undefined || maskImage !== undefined) {
+                throw new ValidationError('editMode is required when a mask is provided');
+            }
+            return undefined;
+        }
+
+        if (!(editMode in EDIT_MODES)) {
+            throw new ValidationError(
+                `Edit mode must be one of: ${Object.keys(EDIT_MODES).join(', ')}`
+            );
+        }
+
+        if (maskMode !== undefined && !(maskMode in MASK_MODES)) {
+            throw new ValidationError(
+                `Mask mode must be one of: ${Object.keys(MASK_MODES).join(', ')}`
+            );
+        }
+
+        if ((maskMode === 'user') !== (maskImage !== undefined)) {
+            throw new ValidationError(
+                'maskImage must be provided if and only if maskMode is "user"'
+            );
+        }
+
+        if (
+            maskMode === 'semantic' &&
+            (!Array.isArray(body.maskClasses) || body.maskClasses.length === 0)
+        ) {
+            throw new ValidationError('maskClasses is required for the "semantic" mask mode');
+        }
+
+        if (editMode === 'outpaint') {
+            if (outpaintAspectRatio === undefined && maskMode !== 'user') {
+                throw new ValidationError(
+                    'Outpainting requires outpaintAspectRatio or a user-drawn mask'
+                );
+            }
+            if (outpaintAspectRatio !== undefined) {
+                if (maskMode !== undefined) {
+                    throw new ValidationError(
+                        'outpaintAspectRatio creates its own mask; omit maskMode'
+                    );
+                }
+                this.validateAspectRatio(outpaintAspectRatio);
+            }
+        } else if (outpaintAspectRatio !== undefined) {
+            throw new ValidationError(
+                'outpaintAspectRatio is only supported with the "outpaint" edit mode'
+            );
+        }
+
+        if ((editMode === 'inpaint-insert' || editMode === 'inpaint-remove') && !maskMode) {
+            throw new ValidationError(`The "${editMode}" edit mode requires a maskMode`);
+        }
+
+        if (body.maskDilation !== undefined) {
+            const dilation = Number(body.maskDilation);
+            if (!Number.isFinite(dilation) || dilation < 0 || dilation > 1) {
+                throw new ValidationError('maskDilation must be a number between 0 and 1');
+            }
+        }
+
+        return editMode;
+    }
+
+    static validateUpscaleFactor(factor: unknown): UpscaleFactor {
+        if (typeof factor !== 'string' || !(factor in UPSCALE_FACTORS)) {
+            throw new ValidationError(
+                `factor must be one of: ${Object.keys(UPSCALE_FACTORS).join(', ')}`
+            );
+        }
+        return factor as UpscaleFactor;
+    }
+
+    // Imagen rejects inputs it cannot upscale within its limits; check before paying for the call
+    static validateUpscaleInput(
+        image: { width: number; height: number; bytes: number },
+        factor: UpscaleFactor
+    ): void {
+        const scale = UPSCALE_FACTORS[factor];
+
+        if (image.bytes > CONSTRAINTS.MAX_UPSCALE_INPUT_BYTES) {
+            throw new ValidationError(
+                `Images larger than ${CONSTRAINTS.MAX_UPSCALE_INPUT_BYTES / (1024 * 1024)} MB cannot be upscaled`
+            );
+        }
+        if (image.width * scale * image.height * scale > CONSTRAINTS.MAX_UPSCALE_OUTPUT_PIXELS) {
+            throw new ValidationError(
+                `Upscaling ${image.width}x${image.height} by ${factor} would exceed the ` +
+                    `${CONSTRAINTS.MAX_UPSCALE_OUTPUT_PIXELS / 1000000} megapixel limit`
+            );
+        }
+    }
+
+    static validateResultQuery(query: Record<string, unknown>): ResultQuery {
+        const param = (name: string): string | undefined => {
+            const value = query[name];
+            return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+        };
+        const integer = (name: string, min: number, max: number): number | undefined => {
+            const value = param(name);
+            if (value === undefined) {
+                return undefined;
+            }
+            const number = Number(value);
+            if (!Number.isInteger(number) || number < min || number > max) {
+                throw new InvalidQueryError(`${name} must be an integer between ${min} and ${max}`);
+            }
+            return number;
+        };
+
+        const hasVideo = param('hasVideo');
+        if (hasVideo !== undefined && hasVideo !== 'true' && hasVideo !== 'false') {
+            throw new InvalidQueryError('hasVideo must be true or false');
+        }
+
+        const aspectRatio = param('aspectRatio');
+        if (
+            aspectRatio !== undefined &&
+            !(ASPECT_RATIOS as readonly string[]).includes(aspectRatio)
+        ) {
+            throw new InvalidQueryError(`aspectRatio must be one of: ${ASPECT_RATIOS.join(', ')}`);
+        }
+
+        const scope = param('scope') ?? 'all';
+        if (scope !== 'all' && scope !== 'mine' && scope !== 'shared') {
+            throw new InvalidQueryError('scope must be all, mine or shared');
+        }
+
+        return {
+            search: param('q'),
+            from: this.parseDateParam('from', param('from'), false),
+            to: this.parseDateParam('to', param('to'), true),
+            hasVideo: hasVideo === undefined ? undefined : hasVideo === 'true',
+            aspectRatio,
+            sampleCount: integer(
+                'sampleCount',
+                CONSTRAINTS.MIN_SAMPLE_COUNT,
+                CONSTRAINTS.MAX_SAMPLE_COUNT
+            ),
+            cursor: integer('cursor', 1, Number.MAX_SAFE_INTEGER),
+            limit: integer('limit', 1, CONSTRAINTS.MAX_PAGE_SIZE) ?? CONSTRAINTS.DEFAULT_PAGE_SIZE,
+            scope,
+        };
+    }
+
+    // Batch rows take the same fields as the generate form; unset fields get the form defaults
+    static validateBatchRow(row: Record<string, unknown>): BatchRowInput {
+        const text = (name: string): string | undefined => {
+            const value = row[name];
+            if (value === undefined || value === null || value === '') {
+                return undefined;
+            }
+            if (typeof value !== 'string') {
+                throw new ValidationError(`${name} must be a string`);
+            }
+            return value.trim() || undefined;
+        };
+
+        const sampleCount = row.sampleCount;
+        if (
+            sampleCount !== undefined &&
+            sampleCount !== '' &&
+            !(
+                Number.isInteger(Number(sampleCount)) &&
+                Number(sampleCount) >= CONSTRAINTS.MIN_SAMPLE_COUNT &&
+                Number(sampleCount) <= CONSTRAINTS.MAX_SAMPLE_COUNT
+            )
+        ) {
+            throw new ValidationError(
+                `sampleCount must be an integer between ${CONSTRAINTS.MIN_SAMPLE_COUNT} and ${CONSTRAINTS.MAX_SAMPLE_COUNT}`
+            );
+        }
+
+        const aspectRatio = text('aspectRatio');
+
+        return {
+            prompt: this.validatePrompt(row.prompt),
+            sampleCount: this.validateSampleCount(sampleCount),
+            aspectRatio:
+                aspectRatio !== undefined
+                    ? this.validateAspectRatio(aspectRatio)
+                    : CONSTRAINTS.DEFAULT_ASPECT_RATIO,
+            safetySetting: text('safetySetting') ?? CONSTRAINTS.DEFAULT_SAFETY_SETTING,
+            personGeneration: text('personGeneration') ?? CONSTRAINTS.DEFAULT_PERSON_GENERATION,
+            editPrompt: text('editPrompt'),
+            videoPrompt: text('videoPrompt'),
+        };
+    }
+
+    // Accepts ISO dates and timestamps; a date-only upper bound covers that whole day (UTC)
+    private static parseDateParam(
+        name: string,
+        value: string | undefined,
+        isUpperBound: boolean
+    ): string | undefined {
+        if (value === undefined) {
+            return undefined;
+        }
+
+        const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+        const date = new Date(isDateOnly && isUpperBound ? `${value}T23:59:59.999Z` : value);
+
+        if (isNaN(date.getTime())) {
+            throw new InvalidQueryError(`${name} must be an ISO date such as 2025-01-31`);
+        }
+
+        return date.toISOString();
+    }
+}
+
+class ImageProcessingUtils {
+    static decodeBase64Image(data: string): Buffer {
+        // Accept data URLs as produced by canvas.toDataURL()
+        return Buffer.from(data.replace(/^data:[^;]+;base64,/, ''), 'base64');
+    }
+
+    // Resizes a user-drawn mask to the image size and reduces it to a black/white PNG
+    static async normalizeMask(mask: Buffer, width: number, height: number): Promise<Buffer> {
+        try {
+            return await sharp(mask)
+                .flatten({ background: '#000000' })
+                .resize(width, height, { fit: 'fill' })
+                .greyscale()
+                .threshold(128)
+                .png()
+                .toBuffer();
+        } catch {
+            throw new ValidationError('maskImage is not a valid image');
+        }
+    }
+
+    // Centers the image on a larger canvas with the target aspect ratio. The returned mask is
+    // white over the new area so only the padding is generated.
+    static async padToAspectRatio(
+        image: Buffer,
+        aspectRatio: string
+    ): Promise<{ image: Buffer; mask: Buffer }> {
+        const { width = 0, height = 0 } = await sharp(image).metadata();
+        const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+        const targetRatio = ratioWidth / ratioHeight;
+
+        const canvasWidth = Math.max(width, Math.round(height * targetRatio));
+        const canvasHeight = Math.max(height, Math.round(width / targetRatio));
+        const left = Math.floor((canvasWidth - width) / 2);
+        const top = Math.floor((canvasHeight - height) / 2);
+        const padding = {
+            top,
+            bottom: canvasHeight - height - top,
+            left,
+            right: canvasWidth - width - left,
+        };
+
+        if (padding.top + padding.bottom + padding.left + padding.right === 0) {
+            throw new ValidationError(`The image already has a ${aspectRatio} aspect ratio`);
+        }
+
+        const paddedImage = await sharp(image)
+            .extend({ ...padding, background: '#000000' })
+            .png()
+            .toBuffer();
+        const mask = await sharp({
+            create: { width, height, channels: 3, background: '#000000' },
+        })
+            .extend({ ...padding, background: '#ffffff' })
+            .png()
+            .toBuffer();
+
+        return { image: paddedImage, mask };
+    }
+}
+
+class CsvUtils {
+    // RFC 4180: quoted fields may hold commas, line breaks and doubled quotes. Each record comes
+    // with the line it starts on; blank lines are skipped.
+    static parse(content: string): Array<{ line: number; cells: string[] }> {
+        const records: Array<{ line: number; cells: string[] }> = [];
+        const text = content.replace(/^\uFEFF/, '');
+        let cells: string[] = [];
+        let cell = '';
+        let quoted = false;
+        let line = 1;
+        let recordLine = 1;
+
+        const endRecord = () => {
+            cells.push(cell);
+            if (cells.length > 1 || cells[0].trim() !== '') {
+                records.push({ line: recordLine, cells });
+            }
+            cells = [];
+            cell = '';
+        };
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    cell += char;
+                    if (char === '\n') {
+                        line++;
+                    }
+                }
+            } else if (char === '"' && cell === '') {
+                quoted = true;
+            } else if (char === ',') {
+                cells.push(cell);
+                cell = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') {
+                    i++;
+                }
+                endRecord();
+                line++;
+                recordLine = line;
+            } else {
+                cell += char;
+            }
+        }
+
+        if (quoted) {
+            throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+        }
+        if (cell !== '' || cells.length > 0) {
+            endRecord();
+        }
+
+        return records;
+    }
+
+    static stringify(rows: unknown[][]): string {
+        const escape = (value: unknown): string => {
+            const text = value === undefined || value === null ? '' : String(value);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+
+        return rows.map((row) => row.map(escape).join(',')).join('\r\n') + '\r\n';
+    }
+}
+
+// FIFO semaphore: at most `limit` tasks run at once, the rest wait in order
+class ConcurrencyLimiter {
+    private active = 0;
+    private queue: Array<() => void> = [];
+
+    constructor(private readonly limit: number) {}
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.limit) {
+            await new Promise<void>((resolve) => this.queue.push(resolve));
+        } else {
+            this.active++;
+        }
+
+        try {
+            return await task();
+        } finally {
+            // Hand the slot straight to the next waiter so newcomers cannot jump the queue
+            const next = this.queue.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
+
+// Opens after `threshold` consecutive failures and rejects calls until the cooldown has passed,
+// then lets a single trial call through (half-open) to decide whether to close again
+class CircuitBreaker {
+    private failures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+
+    constructor(
+        private readonly name: string,
+        private readonly threshold: number,
+        private readonly cooldownMs: number
+    ) {}
+
+    // Returns true when the call is admitted as the half-open trial
+    assertClosed(): boolean {
+        if (this.openedAt === null) {
+            return false;
+        }
+
+        const remainingMs = this.openedAt + this.cooldownMs - Date.now();
+        if (remainingMs > 0 || this.trialInFlight) {
+            throw new CircuitOpenError(this.name, Math.max(remainingMs, 1000));
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+
+    recordSuccess(): void {
+        if (this.openedAt !== null) {
+            console.log(`✅ Circuit for ${this.name} closed`);
+        }
+        this.failures = 0;
+        this.openedAt = null;
+        this.trialInFlight = false;
+    }
+
+    recordFailure(): void {
+        this.failures++;
+        if (this.trialInFlight || (this.openedAt === null && this.failures >= this.threshold)) {
+            console.warn(`🔌 Circuit for ${this.name} opened after ${this.failures} failures`);
+            this.openedAt = Date.now();
+        }
+        this.trialInFlight = false;
+    }
+
+    // Hands back an admitted trial whose call said nothing about the upstream's health
+    releaseTrial(): void {
+        this.trialInFlight = false;
+    }
+}
+
+// ============================================================================
+// Services
+// ============================================================================
+
+class AuthenticationService {
+    private static cachedToken: CachedAccessToken | null = null;
+    private static pendingRefresh: Promise<CachedAccessToken> | null = null;
+    private static keyFileMtimeMs: number | null = null;
+
+    // VERTEX_ACCESS_TOKEN, then GOOGLE_APPLICATION_CREDENTIALS, then service-account-key.json
+    // in the working directory, then Application Default Credentials (gcloud, metadata server)
+    static getCredentialSource(): CredentialSource {
+        if (CONFIG.ACCESS_TOKEN) {
+            return { kind: 'access-token', description: 'VERTEX_ACCESS_TOKEN' };
+        }
+
+        const applicationCredentials = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+        if (applicationCredentials) {
+            return {
+                kind: 'key-file',
+                description: `GOOGLE_APPLICATION_CREDENTIALS (${applicationCredentials})`,
+                keyFile: applicationCredentials,
+            };
+        }
+
+        if (fs.existsSync(PATHS.SERVICE_ACCOUNT_KEY)) {
+            return {
+                kind: 'key-file',
+                description: `service account key ${PATHS.SERVICE_ACCOUNT_KEY}`,
+                keyFile: PATHS.SERVICE_ACCOUNT_KEY,
+            };
+        }
+
+        return { kind: 'application-default', description: 'Application Default Credentials' };
+    }
+
+    // Tokens are cached until shortly before they expire; concurrent callers share one refresh
+    static async getAccessToken(): Promise<string> {
+        if (CONFIG.ACCESS_TOKEN) {
+            return CONFIG.ACCESS_TOKEN;
+        }
+
+        const source = this.getCredentialSource();
+        if (this.keyFileChanged(source)) {
+            console.log(`🔑 ${source.description} changed, reloading credentials`);
+            this.invalidate();
+        }
+
+        if (
+            this.cachedToken &&
+            this.cachedToken.expiresAt - ACCESS_TOKEN_REFRESH_MARGIN_MS > Date.now()
+        ) {
+            return this.cachedToken.token;
+        }
+
+        this.pendingRefresh ??= this.fetchAccessToken(source).finally(() => {
+            this.pendingRefresh = null;
+        });
+        this.cachedToken = await this.pendingRefresh;
+
+        return this.cachedToken.token;
+    }
+
+    // Drops the cached token, e.g. after the upstream rejected it
+    static invalidate(): void {
+        this.cachedToken = null;
+    }
+
+    // Logs which credentials will be used and whether they work, without stopping the server
+    static async logDiagnostic(): Promise<void> {
+        const source = this.getCredentialSource();
+
+        try {
+            await this.getAccessToken();
+            console.log(`🔑 Authenticated with ${source.description}`);
+        } catch (error) {
+            console.error(
+                `❌ Could not obtain an access token from ${source.description}: ` +
+                    `${error instanceof Error ? error.message : String(error)}\n` +
+                    `   Set VERTEX_ACCESS_TOKEN or GOOGLE_APPLICATION_CREDENTIALS, place ` +
+                    `service-account-key.json in ${process.cwd()}, or run ` +
+                    `"gcloud auth application-default login". Upstream requests will fail until then.`
+            );
+        }
+    }
+
+    private static async fetchAccessToken(source: CredentialSource): Promise<CachedAccessToken> {
+        const auth = new GoogleAuth({ keyFilename: source.keyFile, scopes: AUTH_SCOPES });
+        const client = await auth.getClient();
+        const accessToken = await client.getAccessToken();
+
+        if (!accessToken.token) {
+            throw new AuthMisconfiguredError('Failed to obtain a Google Cloud access token');
+        }
+
+        return {
+            token: accessToken.token,
+            expiresAt:
+                client.credentials.expiry_date ?? Date.now() + ACCESS_TOKEN_DEFAULT_LIFETIME_MS,
+        };
+    }
+
+    // Rotated key files are picked up on the next request without a restart
+    private static keyFileChanged(source: CredentialSource): boolean {
+        const mtimeMs = source.keyFile
+            ? (fs.statSync(source.keyFile, { throwIfNoEntry: false })?.mtimeMs ?? null)
+            : null;
+        const changed = this.keyFileMtimeMs !== null && mtimeMs !== this.keyFileMtimeMs;
+        this.keyFileMtimeMs = mtimeMs;
+        return changed;
+    }
+}
+
+abstract class BaseAPIService {
+    protected static validateConfig(): void {
+        if (!CONFIG.PROJECT_ID || !CONFIG.LOCATION) {
+            throw new AuthMisconfiguredError(
+                'PROJECT_ID and LOCATION must be set in environment variables'
+            );
+        }
+    }
+
+    protected static buildBaseUrl(model: string): string {
+        this.validateConfig();
+        return `${CONFIG.VERTEX_API_BASE_URL}/v1/projects/${CONFIG.PROJECT_ID}/locations/${CONFIG.LOCATION}/publishers/google/models/${model}`;
+    }
+
+    protected static buildApiEndpoint(model: string, suffix: string): string {
+        return `${this.buildBaseUrl(model)}:${suffix}`;
+    }
+
+    // Credentials and transport for the upstream; the mock provider swaps both out
+    protected static getAccessToken(): Promise<string> {
+        return AuthenticationService.getAccessToken();
+    }
+
+    protected static send(endpoint: string, init: RequestInit): Promise<globalThis.Response> {
+        return fetch(endpoint, init);
+    }
+
+    private static limiters = new Map<string, ConcurrencyLimiter>();
+    private static circuitBreakers = new Map<string, CircuitBreaker>();
+
+    private static getLimiter(model: string): ConcurrencyLimiter {
+        if (!this.limiters.has(model)) {
+            const override = CONFIG.UPSTREAM_CONCURRENCY_OVERRIDES.split(',')
+                .map((entry) => entry.split('=').map((part) => part.trim()))
+                .find(([name]) => name === model);
+            this.limiters.set(
+                model,
+                new ConcurrencyLimiter(Number(override?.[1]) || CONFIG.UPSTREAM_CONCURRENCY)
+            );
+        }
+
+        return this.limiters.get(model)!;
+    }
+
+    private static getCircuitBreaker(model: string): CircuitBreaker {
+        if (!this.circuitBreakers.has(model)) {
+            this.circuitBreakers.set(
+                model,
+                new CircuitBreaker(
+                    model,
+                    CONFIG.CIRCUIT_BREAKER_THRESHOLD,
+                    CONFIG.CIRCUIT_BREAKER_COOLDOWN_MS
+                )
+            );
+        }
+
+        return this.circuitBreakers.get(model)!;
+    }
+
+    // Retries 429, 5xx and network errors with exponential backoff (or the upstream's
+    // Retry-After). Each attempt waits for a free slot for the model and gives it back before any
+    // backoff, so sleeping requests do not hold up others. The circuit breaker admits the request
+    // once and counts its outcome once, however many attempts it takes. Requests that are not
+    // idempotent are only retried when the upstream cannot have acted on them.
+    protected static async makeApiRequest<T>(
+        model: string,
+        endpoint: string,
+        requestBody: unknown,
+        apiName: string = 'API',
+        idempotent: boolean = true
+    ): Promise<T> {
+        const circuitBreaker = this.getCircuitBreaker(model);
+        const limiter = this.getLimiter(model);
+
+        // Fetched before the breaker admits the request so that auth failures cannot strand
+        // a half-open trial
+        let accessToken = await this.getAccessToken();
+        const isTrial = circuitBreaker.assertClosed();
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const result = await limiter.run(() =>
+                    this.sendRequest<T>(endpoint, requestBody, apiName, accessToken)
+                );
+                circuitBreaker.recordSuccess();
+                return result;
+            } catch (error) {
+                if (!(error instanceof UpstreamError)) {
+                    if (isTrial) {
+                        circuitBreaker.releaseTrial();
+                    }
+                    throw error;
+                }
+
+                // A revoked or expired token is refreshed once before giving up
+                if (error.status === 401 && attempt === 0) {
+                    AuthenticationService.invalidate();
+                    try {
+                        accessToken = await this.getAccessToken();
+                    } catch (authError) {
+                        if (isTrial) {
+                            circuitBreaker.releaseTrial();
+                        }
+                        throw authError;
+                    }
+                    continue;
+                }
+
+                const delayMs = error.retryAfterMs ?? this.getBackoffDelay(attempt);
+                const safeToRetry = idempotent || error.status === 429 || !error.maybeDelivered;
+                if (
+                    !error.retryable ||
+                    !safeToRetry ||
+                    attempt >= CONFIG.UPSTREAM_MAX_RETRIES ||
+                    delayMs > CONFIG.UPSTREAM_RETRY_MAX_DELAY_MS
+                ) {
+                    // Rate limits and client errors mean the upstream itself is healthy
+                    if (error.status !== undefined && error.status < 500) {
+                        circuitBreaker.recordSuccess();
+                    } else {
+                        circuitBreaker.recordFailure();
+                    }
+                    throw error;
+                }
+
+                console.warn(
+                    `⚠️  ${apiName} request failed (${error.message.slice(0, 120)}), ` +
+                        `retry ${attempt + 1}/${CONFIG.UPSTREAM_MAX_RETRIES} in ${delayMs}ms`
+                );
+                await new Promise((resolve) => setTimeout(resolve, delayMs));
+            }
+        }
+    }
+
+    // Full jitter: a random delay up to the exponentially growing cap
+    private static getBackoffDelay(attempt: number): number {
+        const cap = Math.min(
+            CONFIG.UPSTREAM_RETRY_MAX_DELAY_MS,
+            CONFIG.UPSTREAM_RETRY_BASE_DELAY_MS * 2 ** attempt
+        );
+        return Math.round(Math.random() * cap);
+    }
+
+    private static async sendRequest<T>(
+        endpoint: string,
+        requestBody: unknown,
+        apiName: string,
+        accessToken: string
+    ): Promise<T> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), CONFIG.UPSTREAM_TIMEOUT_MS);
+
+        try {
+            const response = await this.send(endpoint, {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json; charset=utf-8',
+                },
+                body: JSON.stringify(requestBody),
+                signal: controller.signal,
+            });
+
+            if (!response.ok) {
+                throw UpstreamError.fromResponse(
+                    apiName,
+                    response.status,
+                    response.statusText,
+                    await response.text(),
+                    this.parseRetryAfter(response.headers.get('retry-after'))
+                );
+            }
+
+            return (await response.json()) as T;
+        } catch (error) {
+            if (error instanceof UpstreamError) {
+                throw error;
+            }
+            const causeCode = (error as { cause?: { code?: string } })?.cause?.code;
+            throw new UpstreamError(
+                controller.signal.aborted
+                    ? `${apiName} API request timed out after ${CONFIG.UPSTREAM_TIMEOUT_MS}ms`
+                    : `${apiName} API request failed: ${error instanceof Error ? error.message : String(error)}`,
+                undefined,
+                undefined,
+                undefined,
+                controller.signal.aborted || !UNDELIVERED_REQUEST_ERRORS.includes(causeCode || '')
+            );
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    // Retry-After is either a number of seconds or an HTTP date
+    private static parseRetryAfter(header: string | null): number | undefined {
+        if (!header) {
+            return undefined;
+        }
+
+        const seconds = Number(header);
+        const delayMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+
+        return Number.isFinite(delayMs) ? Math.max(0, delayMs) : undefined;
+    }
+}
+
+class VertexProvider extends BaseAPIService implements GenerationProvider {
+    readonly name = 'vertex';
+
+    async predict(model: string, requestBody: unknown): Promise<APIResponse> {
+        return VertexProvider.makeApiRequest<APIResponse>(
+            model,
+            VertexProvider.buildApiEndpoint(model, 'predict'),
+            requestBody,
+            'Imagen'
+        );
+    }
+
+    async predictLongRunning(model: string, requestBody: unknown): Promise<OperationResponse> {
+        return VertexProvider.makeApiRequest<OperationResponse>(
+            model,
+            VertexProvider.buildApiEndpoint(model, 'predictLongRunning'),
+            requestBody,
+            'Veo',
+            false // Each accepted call starts a billed operation
+        );
+    }
+
+    async fetchPredictOperation(model: string, operationName: string): Promise<OperationStatus> {
+        return VertexProvider.makeApiRequest<OperationStatus>(
+            model,
+            VertexProvider.buildApiEndpoint(model, 'fetchPredictOperation'),
+            { operationName },
+            'Veo'
+        );
+    }
+}
+
+// Offline stand-in for Vertex AI. Output bytes are derived from the request, so the same
+// request always produces the same placeholder image or video. Requests go through
+// BaseAPIService like Vertex ones, so mock mode covers the same timeouts, retries, limiter and
+// circuit breaker; only the transport is replaced.
+class MockProvider extends BaseAPIService implements GenerationProvider {
+    readonly name = 'mock';
+
+    private static readonly IMAGE_SIZES: Record<string, [number, number]> = {
+        '1:1': [256, 256],
+        '3:4': [192, 256],
+        '4:3': [256, 192],
+        '9:16': [144, 256],
+        '16:9': [256, 144],
+    };
+
+    private static crcTable: number[] | null = null;
+    private static testClips = new Map<string, Promise<Buffer>>(); // By size, length and audio
+
+    async predict(model: string, requestBody: unknown): Promise<APIResponse> {
+        return MockProvider.makeApiRequest<APIResponse>(
+            model,
+            MockProvider.buildApiEndpoint(model, 'predict'),
+            requestBody,
+            'Imagen'
+        );
+    }
+
+    async predictLongRunning(model: string, requestBody: unknown): Promise<OperationResponse> {
+        return MockProvider.makeApiRequest<OperationResponse>(
+            model,
+            MockProvider.buildApiEndpoint(model, 'predictLongRunning'),
+            requestBody,
+            'Veo',
+            false // Retried like a Vertex call, which would start a billed operation
+        );
+    }
+
+    async fetchPredictOperation(model: string, operationName: string): Promise<OperationStatus> {
+        return MockProvider.makeApiRequest<OperationStatus>(
+            model,
+            MockProvider.buildApiEndpoint(model, 'fetchPredictOperation'),
+            { operationName },
+            'Veo'
+        );
+    }
+
+    protected static buildBaseUrl(model: string): string {
+        return `mock://publishers/google/models/${model}`;
+    }
+
+    protected static async getAccessToken(): Promise<string> {
+        return 'mock';
+    }
+
+    // Answers the calls Vertex would get, with the same status codes and JSON bodies
+    protected static async send(endpoint: string, init: RequestInit): Promise<globalThis.Response> {
+        await MockProvider.simulateLatency(init.signal);
+
+        const [, model = '', method] = endpoint.match(/models\/([^:]+):(\w+)$/) || [];
+        const requestBody = JSON.parse(String(init.body));
+        const httpError = (requestBody.instances?.[0]?.prompt || '').match(
+            MOCK_DIRECTIVES.HTTP_ERROR
+        );
+        if (httpError) {
+            return MockProvider.errorResponse(Number(httpError[1]), 'Simulated upstream error');
+        }
+
+        switch (method) {
+            case 'predict':
+                return globalThis.Response.json(
+                    await MockProvider.createPrediction(model, requestBody)
+                );
+            case 'predictLongRunning':
+                return globalThis.Response.json(MockProvider.startOperation(model, requestBody));
+            case 'fetchPredictOperation':
+                return MockProvider.getOperation(requestBody.operationName);
+            default:
+                return MockProvider.errorResponse(404, `Unknown method: ${method}`);
+        }
+    }
+
+    private static async createPrediction(
+        model: string,
+        requestBody: unknown
+    ): Promise<APIResponse> {
+        const body = requestBody as {
+            instances?: Array<{
+                prompt?: string;
+                image?: { bytesBase64Encoded?: string };
+                referenceImages?: Array<{ referenceImage?: { bytesBase64Encoded?: string } }>;
+            }>;
+            parameters?: {
+                sampleCount?: number;
+                mode?: string;
+                upscaleConfig?: { upscaleFactor?: UpscaleFactor };
+                aspectRatio?: string;
+                seed?: number;
+                negativePrompt?: string;
+                outputOptions?: { mimeType?: string; compressionQuality?: number };
+            };
+        };
+        const instance = body.instances?.[0] || {};
+        const prompt = instance.prompt || '';
+
+        // Imagen leaves out predictions that were blocked by its safety filters
+        if (prompt.includes(MOCK_DIRECTIVES.SAFETY_FILTER)) {
+            return {};
+        }
+
+        // Upscales are a plain resize of the input
+        if (body.parameters?.mode === 'upscale') {
+            const input = Buffer.from(instance.image?.bytesBase64Encoded || '', 'base64');
+            const { width = 0 } = await sharp(input).metadata();
+            const factor = UPSCALE_FACTORS[body.parameters.upscaleConfig?.upscaleFactor || 'x2'];
+            const image = await sharp(input)
+                .resize({ width: width * factor })
+                .png()
+                .toBuffer();
+
+            return {
+                predictions: [
+                    { mimeType: 'image/png', bytesBase64Encoded: image.toString('base64') },
+                ],
+            };
+        }
+
+        const referenceBytes = (instance.referenceImages || [])
+            .map((reference) => reference.referenceImage?.bytesBase64Encoded || '')
+            .join('');
+        const seed = MockProvider.hash(
+            model,
+            prompt,
+            referenceBytes,
+            String(body.parameters?.seed ?? ''),
+            body.parameters?.negativePrompt ?? ''
+        );
+        const [width, height] =
+            MockProvider.IMAGE_SIZES[body.parameters?.aspectRatio || ''] ||
+            MockProvider.IMAGE_SIZES[CONSTRAINTS.DEFAULT_ASPECT_RATIO];
+        const sampleCount = body.parameters?.sampleCount || CONSTRAINTS.DEFAULT_SAMPLE_COUNT;
+        const outputOptions = body.parameters?.outputOptions;
+
+        return {
+            predictions: await Promise.all(
+                Array.from({ length: sampleCount }, async (_, index) => {
+                    const png = MockProvider.createPng(
+                        MockProvider.hash(seed, String(index)),
+                        width,
+                        height
+                    );
+                    const image =
+                        outputOptions?.mimeType === 'image/jpeg'
+                            ? await sharp(png)
+                                  .jpeg({ quality: outputOptions.compressionQuality ?? 75 })
+                                  .toBuffer()
+                            : png;
+
+                    return {
+                        mimeType: outputOptions?.mimeType || 'image/png',
+                        bytesBase64Encoded: image.toString('base64'),
+                    };
+                })
+            ),
+        };
+    }
+
+    private static startOperation(model: string, requestBody: unknown): OperationResponse {
+        const body = requestBody as {
+            instances?: Array<{ prompt?: string }>;
+            parameters?: {
+                sampleCount?: number;
+                aspectRatio?: string;
+                durationSeconds?: number;
+                generateAudio?: boolean;
+            };
+        };
+        const prompt = body.instances?.[0]?.prompt || '';
+        const sampleCount = body.parameters?.sampleCount || 1;
+        const format = [
+            (body.parameters?.aspectRatio || CONSTRAINTS.DEFAULT_VIDEO_ASPECT_RATIO).replace(
+                ':',
+                'x'
+            ),
+            body.parameters?.durationSeconds || CONSTRAINTS.DEFAULT_VIDEO_DURATION,
+            body.parameters?.generateAudio ? 1 : 0,
+        ].join('.');
+
+        const outcome = prompt.includes(MOCK_DIRECTIVES.SAFETY_FILTER)
+            ? 'filtered'
+            : prompt.includes(MOCK_DIRECTIVES.OPERATION_ERROR)
+              ? 'error'
+              : 'ok';
+        const seed = MockProvider.hash(model, JSON.stringify(requestBody)).slice(0, 16);
+
+        // The operation state is encoded in its name so polling survives a server restart
+        return {
+            name: `projects/mock/locations/${CONFIG.LOCATION}/publishers/google/models/${model}/operations/${Date.now()}.${seed}.${outcome}.${sampleCount}.${format}`,
+        };
+    }
+
+    private static async getOperation(operationName: string): Promise<globalThis.Response> {
+        // Older names have no sample count or video format
+        const [
+            createdAt,
+            seed,
+            outcome,
+            sampleCount = '1',
+            aspectRatio = CONSTRAINTS.DEFAULT_VIDEO_ASPECT_RATIO.replace(':', 'x'),
+            duration = String(CONSTRAINTS.DEFAULT_VIDEO_DURATION),
+            audio = '0',
+        ] = (operationName.split('/').pop() || '').split('.');
+        if (!createdAt || !seed || !outcome) {
+            return MockProvider.errorResponse(404, `Unknown operation: ${operationName}`);
+        }
+
+        if (Date.now() < Number(createdAt) + CONFIG.MOCK_VIDEO_DELAY_MS) {
+            return globalThis.Response.json({ done: false });
+        }
+
+        if (outcome === 'error') {
+            return globalThis.Response.json({
+                done: true,
+                error: { code: 13, message: 'Mock video generation failed' },
+            });
+        }
+
+        if (outcome === 'filtered') {
+            return globalThis.Response.json({
+                done: true,
+                response: { videos: [], raiMediaFilteredCount: 1 },
+            });
+        }
+
+        const videos = await Promise.all(
+            Array.from({ length: Number(sampleCount) || 1 }, (_, index) =>
+                MockProvider.createVideo(
+                    `${seed}-${index}`,
+                    aspectRatio.replace('x', ':'),
+                    Number(duration),
+                    audio === '1'
+                )
+            )
+        );
+
+        return globalThis.Response.json({
+            done: true,
+            response: {
+                videos: videos.map((video) => ({
+                    mimeType: 'video/mp4',
+                    bytesBase64Encoded: video.toString('base64'),
+                })),
+            },
+        });
+    }
+
+    // Aborted like a real request when it outlasts UPSTREAM_TIMEOUT_MS
+    private static simulateLatency(signal?: AbortSignal | null): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(resolve, CONFIG.MOCK_LATENCY_MS);
+            signal?.addEventListener(
+                'abort',
+                () => {
+                    clearTimeout(timer);
+                    reject(signal.reason);
+                },
+                { once: true }
+            );
+        });
+    }
+
+    private static errorResponse(status: number, message: string): globalThis.Response {
+        return globalThis.Response.json(
+            { error: { code: status, message, status: 'MOCK' } },
+            { status, statusText: 'Mock Error' }
+        );
+    }
+
+    private static hash(...parts: string[]): string {
+        return crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex');
+    }
+
+    // Diagonal gradient between two colors taken from the seed
+    private static createPng(seed: string, width: number, height: number): Buffer {
+        const from = [0, 2, 4].map((offset) => parseInt(seed.slice(offset, offset + 2), 16));
+        const to = [6, 8, 10].map((offset) => parseInt(seed.slice(offset, offset + 2), 16));
+
+        const raw = Buffer.alloc((width * 3 + 1) * height);
+        for (let y = 0; y < height; y++) {
+            const rowStart = y * (width * 3 + 1);
+            raw[rowStart] = 0; // Filter type: none
+            for (let x = 0; x < width; x++) {
+                const t = (x + y) / (width + height - 2);
+                for (let channel = 0; channel < 3; channel++) {
+                    raw[rowStart + 1 + x * 3 + channel] = Math.round(
+                        from[channel] + (to[channel] - from[channel]) * t
+                    );
+                }
+            }
+        }
+
+        const header = Buffer.alloc(13);
+        header.writeUInt32BE(width, 0);
+        header.writeUInt32BE(height, 4);
+        header[8] = 8; // Bit depth
+        header[9] = 2; // Color type: RGB
+
+        return Buffer.concat([
+            Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+            this.pngChunk('IHDR', header),
+            this.pngChunk('IDAT', zlib.deflateSync(raw)),
+            this.pngChunk('IEND', Buffer.alloc(0)),
+        ]);
+    }
+
+    private static pngChunk(type: string, data: Buffer): Buffer {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(data.length, 0);
+        const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+        const crc = Buffer.alloc(4);
+        crc.writeUInt32BE(this.crc32(typeAndData), 0);
+        return Buffer.concat([length, typeAndData, crc]);
+    }
+
+    private static crc32(data: Buffer): number {
+        if (!this.crcTable) {
+            this.crcTable = Array.from({ length: 256 }, (_, n) => {
+                let c = n;
+                for (let k = 0; k < 8; k++) {
+                    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+                }
+                return c >>> 0;
+            });
+        }
+
+        let crc = 0xffffffff;
+        for (const byte of data) {
+            crc = this.crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    // A test pattern clip rendered with ffmpeg, so mock takes can be played, extended and stitched.
+    // Each format is rendered once; without ffmpeg the clip is a placeholder with no frames.
+    private static async createVideo(
+        seed: string,
+        aspectRatio: string,
+        duration: number,
+        withAudio: boolean
+    ): Promise<Buffer> {
+        const [width, height] = aspectRatio === '9:16' ? [180, 320] : [320, 180];
+        const key = `${width}x${height}-${duration}-${withAudio}`;
+
+        if (!this.testClips.has(key)) {
+            const render = MediaService.renderTestPattern(width, height, duration, withAudio);
+            this.testClips.set(key, render);
+            render.catch(() => this.testClips.delete(key));
+        }
+
+        try {
+            return await this.testClips.get(key)!;
+        } catch (error) {
+            if (error instanceof MediaUnavailableError) {
+                return this.createMp4(seed);
+            }
+            throw error;
+        }
+    }
+
+    // Minimal ISO BMFF container (ftyp + free + mdat); it has no playable frames
+    private static createMp4(seed: string): Buffer {
+        const box = (type: string, payload: Buffer): Buffer => {
+            const size = Buffer.alloc(4);
+            size.writeUInt32BE(payload.length + 8, 0);
+            return Buffer.concat([size, Buffer.from(type, 'ascii'), payload]);
+        };
+
+        return Buffer.concat([
+            box(
+                'ftyp',
+                Buffer.concat([Buffer.from('isom'), Buffer.alloc(4), Buffer.from('isommp41')])
+            ),
+            box('free', Buffer.from(`mock video ${seed}`, 'utf-8')),
+            box('mdat', Buffer.from(this.hash(seed).repeat(32), 'hex')),
+        ]);
+    }
+}
+
+class ProviderService {
+    private static provider: GenerationProvider | null = null;
+
+    static getProvider(): GenerationProvider {
+        if (!this.provider) {
+            this.provider = this.createProvider(CONFIG.PROVIDER);
+        }
+        return this.provider;
+    }
+
+    private static createProvider(name: string): GenerationProvider {
+        switch (name) {
+            case 'vertex':
+                return new VertexProvider();
+            case 'mock':
+                return new MockProvider();
+            default:
+                throw new Error(`Unknown generation provider "${name}". Use "vertex" or "mock".`);
+        }
+    }
+}
+
+class ModelService {
+    static getDefaultModelId(operation: ModelOperation): string {
+        switch (operation) {
+            case 'generate':
+                return CONFIG.IMAGEN_MODEL;
+            case 'customize':
+            case 'edit':
+                return CONFIG.IMAGEN_EDIT_MODEL;
+            case 'upscale':
+                return CONFIG.IMAGEN_UPSCALE_MODEL;
+            case 'video':
+                return CONFIG.VEO_MODEL;
+        }
+    }
+
+    // The registry plus any configured default it does not list
+    static getModels(): ModelInfo[] {
+        const models = [...MODEL_REGISTRY];
+        const addUnlisted = (id: string, model: Omit<ModelInfo, 'id' | 'name'>) => {
+            if (!models.some((entry) => entry.id === id)) {
+                models.push({ id, name: id, ...model });
+            }
+        };
+
+        addUnlisted(CONFIG.IMAGEN_MODEL, {
+            operations: ['generate'],
+            aspectRatios: ASPECT_RATIOS,
+            maxSampleCount: CONSTRAINTS.MAX_SAMPLE_COUNT,
+        });
+        addUnlisted(CONFIG.IMAGEN_EDIT_MODEL, {
+            operations: ['customize', 'edit'],
+            aspectRatios: ASPECT_RATIOS,
+            maxSampleCount: CONSTRAINTS.MAX_SAMPLE_COUNT,
+            editModes: Object.keys(EDIT_MODES) as EditMode[],
+        });
+        addUnlisted(CONFIG.IMAGEN_UPSCALE_MODEL, {
+            operations: ['upscale'],
+            aspectRatios: ASPECT_RATIOS,
+            maxSampleCount: 1,
+        });
+        addUnlisted(CONFIG.VEO_MODEL, {
+            operations: ['video'],
+            aspectRatios: VIDEO_ASPECT_RATIOS,
+            maxSampleCount: 1,
+            audio: CONFIG.VEO_MODEL.includes('veo-3'),
+            videoModes: ['text', 'image', 'extend'],
+        });
+
+        return models;
+    }
+
+    static getModel(id: string): ModelInfo | undefined {
+        return this.getModels().find((model) => model.id === id);
+    }
+}
+
+class ImageGenerationService {
+    // Every call is recorded in the usage ledger, including failed and filtered ones
+    private static async makeImagenApiRequest(
+        model: string,
+        requestBody: { parameters: { sampleCount: number } },
+        operation: UsageOperation,
+        generationId?: number
+    ): Promise<APIResponse> {
+        const startedAt = Date.now();
+        const usage = {
+            generationId,
+            model,
+            operation,
+            sampleCount: requestBody.parameters.sampleCount,
+        };
+        let responseData: APIResponse;
+
+        try {
+            responseData = await ProviderService.getProvider().predict(model, requestBody);
+        } catch (error) {
+            UsageService.record({
+                ...usage,
+                outputCount: 0,
+                outcome: UsageService.getOutcome(error),
+                latencyMs: Date.now() - startedAt,
+            });
+            throw error;
+        }
+
+        // Imagen omits predictions that were blocked by its responsible AI filters
+        const outputCount = responseData.predictions?.length || 0;
+        UsageService.record({
+            ...usage,
+            outputCount,
+            outcome: outputCount > 0 ? 'succeeded' : 'safety-filtered',
+            latencyMs: Date.now() - startedAt,
+        });
+
+        if (outputCount === 0) {
+            throw new SafetyFilteredError(
+                'Imagen API returned no predictions. The content may have been blocked by safety filters.'
+            );
+        }
+
+        return responseData;
+    }
+
+    // Optional parameters in the form Imagen expects; unset ones are left out of the request
+    private static getOptionalParameters(options: ImageGenerationOptions): Record<string, unknown> {
+        const { outputMimeType, compressionQuality, ...rest } = options;
+        const parameters: Record<string, unknown> = Object.fromEntries(
+            Object.entries(rest).filter(([, value]) => value !== undefined)
+        );
+
+        if (outputMimeType) {
+            parameters.outputOptions = { mimeType: outputMimeType, compressionQuality };
+        }
+        return parameters;
+    }
+
+    static getGenerateModel(hasReferences: boolean): string {
+        return hasReferences ? CONFIG.IMAGEN_EDIT_MODEL : CONFIG.IMAGEN_MODEL;
+    }
+
+    static async generateImage(
+        prompt: string,
+        sampleCount: number = CONSTRAINTS.DEFAULT_SAMPLE_COUNT,
+        aspectRatio: string = CONSTRAINTS.DEFAULT_ASPECT_RATIO,
+        safetySetting: string = CONSTRAINTS.DEFAULT_SAFETY_SETTING,
+        personGeneration: string = CONSTRAINTS.DEFAULT_PERSON_GENERATION,
+        references: ResolvedReferenceImage[] = [],
+        options: ImageGenerationOptions = {},
+        generationId?: number,
+        model: string = this.getGenerateModel(references.length > 0)
+    ): Promise<PredictionResponse[]> {
+        // Subject and style customization is served by the capability model
+        const referenceImages = references.map((reference) => ({
+            referenceType:
+                reference.type === 'subject' ? 'REFERENCE_TYPE_SUBJECT' : 'REFERENCE_TYPE_STYLE',
+            referenceId: reference.referenceId,
+            referenceImage: { bytesBase64Encoded: reference.imageBase64 },
+            ...(reference.type === 'subject'
+                ? {
+                      subjectImageConfig: {
+                          subjectDescription: reference.description,
+                          subjectType: SUBJECT_TYPES[reference.subjectType || 'default'],
+                      },
+                  }
+                : { styleImageConfig: { styleDescription: reference.description } }),
+        }));
+
+        const requestBody = {
+            instances: [referenceImages.length > 0 ? { prompt, referenceImages } : { prompt }],
+            parameters: {
+                sampleCount: ValidationUtils.validateSampleCount(sampleCount),
+                aspectRatio,
+                safetySetting,
+                personGeneration,
+                ...this.getOptionalParameters(options),
+            },
+        };
+
+        const responseData = await this.makeImagenApiRequest(
+            model,
+            requestBody,
+            'generate',
+            generationId
+        );
+
+        return responseData.predictions!.map((pred) => ({
+            mimeType: pred.mimeType || 'image/png',
+            bytesBase64Encoded: pred.bytesBase64Encoded || '',
+            prompt: pred.prompt,
+        }));
     }
 
     static async editImage(
         imageBase64: string,
-        editPrompt: string,
-        sampleCount: number = CONSTRAINTS.DEFAULT_SAMPLE_COUNT,
-        safetySetting: string = CONSTRAINTS.DEFAULT_SAFETY_SETTING,
-        personGeneration: string = CONSTRAINTS.DEFAULT_PERSON_GENERATION
+        editPrompt: string,
+        sampleCount: number = CONSTRAINTS.DEFAULT_SAMPLE_COUNT,
+        safetySetting: string = CONSTRAINTS.DEFAULT_SAFETY_SETTING,
+        personGeneration: string = CONSTRAINTS.DEFAULT_PERSON_GENERATION,
+        editOptions: ImageEditOptions = {},
+        generationId?: number,
+        model: string = CONFIG.IMAGEN_EDIT_MODEL
+    ): Promise<PredictionResponse[]> {
+        const { editMode, mask, ...options } = editOptions;
+        const referenceImages: unknown[] = [
+            {
+                referenceType: 'REFERENCE_TYPE_RAW',
+                referenceId: 1,
+                referenceImage: {
+                    bytesBase64Encoded: imageBase64,
+                },
+            },
+        ];
+
+        // Targeted edits add a mask reference: either the mask itself or how to detect it
+        if (mask) {
+            referenceImages.push({
+                referenceType: 'REFERENCE_TYPE_MASK',
+                referenceId: 2,
+                ...(mask.imageBase64
+                    ? { referenceImage: { bytesBase64Encoded: mask.imageBase64 } }
+                    : {}),
+                maskImageConfig: {
+                    maskMode: mask.maskMode,
+                    ...(mask.maskClasses ? { maskClasses: mask.maskClasses } : {}),
+                    ...(mask.dilation !== undefined ? { dilation: mask.dilation } : {}),
+                },
+            });
+        }
+
+        const requestBody = {
+            instances: [
+                {
+                    referenceImages,
+                    prompt: editPrompt,
+                },
+            ],
+            parameters: {
+                sampleCount: ValidationUtils.validateSampleCount(sampleCount),
+                safetySetting,
+                personGeneration,
+                ...(editMode ? { editMode } : {}),
+                ...this.getOptionalParameters(options),
+            },
+        };
+
+        const responseData = await this.makeImagenApiRequest(
+            model,
+            requestBody,
+            'edit',
+            generationId
+        );
+
+        return responseData.predictions!.map((pred) => ({
+            mimeType: pred.mimeType || 'image/png',
+            bytesBase64Encoded: pred.bytesBase64Encoded || '',
+            prompt: pred.prompt,
+        }));
+    }
+
+    // Upscale mode takes no prompt and returns a single image
+    static async upscaleImage(
+        imageBase64: string,
+        factor: UpscaleFactor,
+        generationId?: number,
+        model: string = CONFIG.IMAGEN_UPSCALE_MODEL
     ): Promise<PredictionResponse[]> {
-        const apiEndpoint = this.buildPredictEndpoint(CONFIG.IMAGEN_EDIT_MODEL);
+        const requestBody = {
+            instances: [{ prompt: '', image: { bytesBase64Encoded: imageBase64 } }],
+            parameters: {
+                sampleCount: 1,
+                mode: 'upscale',
+                upscaleConfig: { upscaleFactor: factor },
+            },
+        };
+
+        const responseData = await this.makeImagenApiRequest(
+            model,
+            requestBody,
+            'upscale',
+            generationId
+        );
+
+        return responseData.predictions!.map((pred) => ({
+            mimeType: pred.mimeType || 'image/png',
+            bytesBase64Encoded: pred.bytesBase64Encoded || '',
+        }));
+    }
+}
+
+class VideoGenerationService {
+    static async generateVideo(
+        prompt: string,
+        image?: VideoFrame,
+        aspectRatio: string = CONSTRAINTS.DEFAULT_VIDEO_ASPECT_RATIO,
+        duration: number = CONSTRAINTS.DEFAULT_VIDEO_DURATION
+    ): Promise<string[]> {
+        const operationName = await this.startVideoGeneration(prompt, image, aspectRatio, duration);
+        return this.pollVideoOperation(operationName);
+    }
+
+    static readFrame(imageUrl: string): VideoFrame {
+        const imageBuffer = fs.readFileSync(FileUtils.outputUrlToPath(imageUrl));
+
+        return {
+            bytesBase64Encoded: imageBuffer.toString('base64'),
+            mimeType: FileUtils.detectImageMimeType(imageBuffer) || 'image/png',
+        };
+    }
+
+    // Starts the long-running Veo operation and returns its name without waiting for the video.
+    // Without an image Veo works from the prompt alone; a lastFrame makes it end on that image.
+    static async startVideoGeneration(
+        prompt: string,
+        image?: VideoFrame,
+        aspectRatio: string = CONSTRAINTS.DEFAULT_VIDEO_ASPECT_RATIO,
+        duration: number = CONSTRAINTS.DEFAULT_VIDEO_DURATION,
+        model: string = CONFIG.VEO_MODEL,
+        generateAudio: boolean = this.generatesAudio(model),
+        options: VideoGenerationOptions = {},
+        lastFrame?: VideoFrame
+    ): Promise<string> {
+        const requestBody: any = {
+            instances: [
+                {
+                    prompt: prompt,
+                    ...(image && { image }),
+                    ...(lastFrame && { lastFrame }),
+                },
+            ],
+            parameters: {
+                aspectRatio: aspectRatio,
+                durationSeconds: duration,
+                sampleCount: options.sampleCount ?? 1,
+            },
+        };
+
+        // Models with audio require the generateAudio parameter
+        if (this.generatesAudio(model)) {
+            requestBody.parameters.generateAudio = generateAudio;
+        }
+        if (options.negativePrompt) {
+            requestBody.parameters.negativePrompt = options.negativePrompt;
+        }
+        if (options.resolution) {
+            requestBody.parameters.resolution = options.resolution;
+        }
+        if (options.seed !== undefined) {
+            requestBody.parameters.seed = options.seed;
+        }
+
+        // Start the long-running operation
+        const operationResponse = await ProviderService.getProvider().predictLongRunning(
+            model,
+            requestBody
+        );
+        const operationName = operationResponse.name;
+
+        if (!operationName) {
+            throw new UpstreamError('Failed to start video generation operation');
+        }
+
+        return operationName;
+    }
+
+    // Audio is on by default where the model supports it, and billed at a higher rate
+    static generatesAudio(model: string = CONFIG.VEO_MODEL): boolean {
+        return ModelService.getModel(model)?.audio === true;
+    }
+
+    // Polls an existing Veo operation until it completes and returns the videos' bytes (base64)
+    static async pollVideoOperation(
+        operationName: string,
+        onPollAttempt?: (attempt: number, maxAttempts: number) => void,
+        model: string = CONFIG.VEO_MODEL
+    ): Promise<string[]> {
+        for (let attempt = 0; attempt < CONSTRAINTS.VIDEO_POLL_MAX_ATTEMPTS; attempt++) {
+            await new Promise((resolve) => setTimeout(resolve, CONFIG.VIDEO_POLL_INTERVAL_MS));
+            onPollAttempt?.(attempt + 1, CONSTRAINTS.VIDEO_POLL_MAX_ATTEMPTS);
+
+            let operationStatus: OperationStatus;
+            try {
+                operationStatus = await ProviderService.getProvider().fetchPredictOperation(
+                    model,
+                    operationName
+                );
+            } catch (error) {
+                // The operation keeps running upstream, so a transient failure only costs this poll
+                if (
+                    error instanceof CircuitOpenError ||
+                    (error instanceof UpstreamError && error.retryable)
+                ) {
+                    console.warn(`⚠️  Veo poll ${attempt + 1} failed: ${error.message}`);
+                    continue;
+                }
+                throw error;
+            }
+
+            if (operationStatus.done) {
+                // Check for errors first; rejected inputs must not be reported as retryable outages
+                if (operationStatus.error) {
+                    const { code } = operationStatus.error;
+                    throw UpstreamError.fromResponse(
+                        'Veo',
+                        RPC_CODE_HTTP_STATUSES[code ?? 2] ?? 500,
+                        `Video generation failed (code ${code ?? 'unknown'})`,
+                        JSON.stringify({ error: operationStatus.error })
+                    );
+                }
+
+                if (operationStatus.response) {
+                    // Check if response has videos array
+                    if (
+                        operationStatus.response.videos &&
+                        operationStatus.response.videos.length > 0
+                    ) {
+                        const videos = operationStatus.response.videos;
+                        if (videos.every((video) => video.bytesBase64Encoded)) {
+                            return videos.map((video) => video.bytesBase64Encoded!);
+                        }
+                        if (videos.some((video) => video.gcsUri)) {
+                            throw new UpstreamError(
+                                'Video stored in GCS. Please configure storageUri or download from GCS.'
+                            );
+                        }
+                        throw new UpstreamError(
+                            'Video object found but missing bytesBase64Encoded or gcsUri'
+                        );
+                    }
+
+                    // Check for raiMediaFilteredCount (videos filtered by safety)
+                    if (
+                        operationStatus.response.raiMediaFilteredCount &&
+                        operationStatus.response.raiMediaFilteredCount > 0
+                    ) {
+                        throw new SafetyFilteredError(
+                            `Video generation filtered by safety policies. Filtered count: ${operationStatus.response.raiMediaFilteredCount}`
+                        );
+                    }
+                }
+
+                throw new UpstreamError('Video generation completed but no video data found.');
+            }
+        }
+
+        throw new UpstreamError('Video generation timed out');
+    }
+}
+
+class DatabaseService {
+    private static database: Database.Database | null = null;
+
+    static getDatabase(): Database.Database {
+        if (!this.database) {
+            FileUtils.ensureDirectoryExists(PATHS.OUTPUTS);
+            const database = new Database(PATHS.DATABASE);
+            database.pragma('journal_mode = WAL');
+            database.pragma('foreign_keys = ON');
+            database.exec(DATABASE_SCHEMA);
+            this.applyMigrations(database);
+            this.database = database;
+        }
+
+        return this.database;
+    }
+
+    private static applyMigrations(database: Database.Database): void {
+        const applied = new Set(
+            database.prepare('SELECT name FROM migrations').pluck().all() as string[]
+        );
+
+        DATABASE_MIGRATIONS.filter((migration) => !applied.has(migration.name)).forEach(
+            (migration) =>
+                database.transaction(() => {
+                    database.exec(migration.sql);
+                    database
+                        .prepare('INSERT INTO migrations (name, applied_at) VALUES (?, ?)')
+                        .run(migration.name, new Date().toISOString());
+                })()
+        );
+    }
+
+    // Runs the callback in a single transaction; everything is rolled back if it throws
+    static transaction<T>(callback: () => T): T {
+        return this.getDatabase().transaction(callback)();
+    }
+}
+
+class LegacyImportService {
+    private static readonly MIGRATION_NAME = 'import-legacy-json';
+
+    // Imports metadata.json, jobs.json and the result files in outputs/ into the database once
+    static importIfNeeded(): void {
+        const database = DatabaseService.getDatabase();
+        const applied = database
+            .prepare('SELECT 1 FROM migrations WHERE name = ?')
+            .get(this.MIGRATION_NAME);
+
+        if (applied) {
+            return;
+        }
+
+        const { generations, jobs } = DatabaseService.transaction(() => {
+            const metadata = this.readLegacyMetadata();
+            const files = this.readResultFiles();
+            const generationIds = new Set([...metadata.keys(), ...files.keys()]);
+
+            generationIds.forEach((id) =>
+                this.importGeneration(
+                    id,
+                    metadata.get(id),
+                    files.get(id) || { images: [], videos: [] }
+                )
+            );
+
+            const legacyJobs = this.readLegacyJobs();
+            legacyJobs.forEach((job) => JobService.saveJob(job));
+
+            database
+                .prepare('INSERT INTO migrations (name, applied_at) VALUES (?, ?)')
+                .run(this.MIGRATION_NAME, new Date().toISOString());
+
+            return { generations: generationIds.size, jobs: legacyJobs.length };
+        });
+
+        if (generations > 0 || jobs > 0) {
+            console.log(
+                `📦 Imported ${generations} generations and ${jobs} jobs into the database`
+            );
+        }
+    }
+
+    private static readLegacyMetadata(): Map<number, LegacyMetadataEntry> {
+        const metadata = new Map<number, LegacyMetadataEntry>();
+
+        const json = this.readLegacyJson(PATHS.METADATA);
+        if (Array.isArray(json)) {
+            json.forEach((item: LegacyMetadataEntry) => {
+                if (item.id) {
+                    metadata.set(item.id, item);
+                }
+            });
+        }
+
+        return metadata;
+    }
+
+    private static readLegacyJobs(): VideoJob[] {
+        const json = this.readLegacyJson(PATHS.JOBS);
+        return Array.isArray(json) ? json.filter((job: VideoJob) => job.id) : [];
+    }
+
+    // A file that does not parse is moved aside and skipped, so one corrupt file cannot stop
+    // the server from starting and can still be recovered by hand
+    private static readLegacyJson(filePath: string): unknown {
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        } catch (error) {
+            const invalidPath = `${filePath}.invalid`;
+            fs.renameSync(filePath, invalidPath);
+            console.warn(
+                `⚠️  Skipped ${path.basename(filePath)} during import, it is not valid JSON (${error instanceof Error ? error.message : String(error)}). Moved it to ${path.basename(invalidPath)}`
+            );
+            return null;
+        }
+    }
+
+    // Result files grouped by generation id
+    private static readResultFiles(): Map<number, { images: string[]; videos: string[] }> {
+        const files = new Map<number, { images: string[]; videos: string[] }>();
+
+        fs.readdirSync(PATHS.OUTPUTS)
+            .filter((file) => file.startsWith('result-') && !file.endsWith('.json'))
+            .sort()
+            .forEach((file) => {
+                const generationId = FileUtils.extractGenerationId(file);
+                if (generationId === null) {
+                    return;
+                }
+
+                if (!files.has(generationId)) {
+                    files.set(generationId, { images: [], videos: [] });
+                }
+                const entry = files.get(generationId)!;
+                (file.endsWith('.mp4') ? entry.videos : entry.images).push(`/outputs/${file}`);
+            });
+
+        return files;
+    }
+
+    private static importGeneration(
+        id: number,
+        entry: LegacyMetadataEntry | undefined,
+        files: { images: string[]; videos: string[] }
+    ): void {
+        const database = DatabaseService.getDatabase();
+        const createdAt = new Date(id).toISOString(); // Generation ids are creation timestamps
+        const prompts = entry?.prompts || (entry?.prompt ? [entry.prompt] : []);
+        const versions = entry?.versions?.length
+            ? entry.versions.map((version) => ({
+                  ...version,
+                  images: version.images.filter((image) => files.images.includes(image)),
+              }))
+            : this.buildLinearVersions(id, entry, prompts, files.images, createdAt);
+
+        database
+            .prepare(
+                `INSERT INTO generations
+                    (id, origin, original_filename, enhanced_prompt, current_version_id, created_at)
+                VALUES (?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                id,
+                entry?.origin || 'generated',
+                entry?.originalFilename ?? null,
+                entry?.enhancedPrompt ?? null,
+                entry?.currentVersionId ?? versions[versions.length - 1]?.id ?? null,
+                createdAt
+            );
+
+        const insertPrompt = database.prepare(
+            'INSERT INTO prompts (generation_id, kind, prompt, created_at) VALUES (?, ?, ?, ?)'
+        );
+        prompts.forEach((prompt) => insertPrompt.run(id, 'image', prompt, createdAt));
+        (entry?.videoPrompts || []).forEach((prompt) =>
+            insertPrompt.run(id, 'video', prompt, createdAt)
+        );
+
+        versions.forEach((version) => MetadataService.insertVersion(id, version));
+        files.videos.forEach((video) => MetadataService.insertAsset(id, null, 'video', video));
+    }
+
+    // Generations created before version tracking only have a flat prompt list and the latest
+    // image files; each prompt becomes a linear version and only the last one keeps the images
+    private static buildLinearVersions(
+        id: number,
+        entry: LegacyMetadataEntry | undefined,
+        prompts: string[],
+        images: string[],
+        createdAt: string
+    ): ImageVersion[] {
+        const unversionedImages = images.filter(
+            (image) => !/^\/outputs\/result-\d+-v\d+(?:-\d+)?\./.test(image)
+        );
+
+        if (unversionedImages.length === 0) {
+            return [];
+        }
+
+        const versionPrompts = prompts.length > 0 ? prompts : [`Generated image ${id}`];
+        return versionPrompts.map((prompt, index) => ({
+            id: index + 1,
+            parentId: index === 0 ? null : index,
+            operation: index > 0 ? 'edit' : entry?.origin === 'uploaded' ? 'upload' : 'generate',
+            prompt,
+            enhancedPrompt: index === 0 ? entry?.enhancedPrompt : undefined,
+            parameters: {},
+            images: index === versionPrompts.length - 1 ? unversionedImages : [],
+            createdAt,
+        }));
+    }
+}
+
+class MetadataService {
+    private static lastGenerationId = 0;
+
+    // Generation ids are creation timestamps. Each id is claimed in the database, so ids handed
+    // out in the same millisecond (batch rows side by side, the CLI next to the server) are
+    // bumped until one is free.
+    static allocateGenerationId(): number {
+        const claim = DatabaseService.getDatabase().prepare(
+            `INSERT OR IGNORE INTO generation_ids (id)
+            SELECT ? WHERE NOT EXISTS (SELECT 1 FROM generations WHERE id = ?)`
+        );
+        let id = Math.max(Date.now(), this.lastGenerationId + 1);
+
+        while (claim.run(id, id).changes === 0) {
+            id++;
+        }
+        this.lastGenerationId = id;
+        return id;
+    }
+
+    // Creates a generation with its first version in one transaction
+    static createGeneration(
+        id: number,
+        ownerId: number,
+        version: Omit<ImageVersion, 'id' | 'parentId' | 'createdAt'>,
+        origin: GenerationOrigin = 'generated',
+        originalFilename?: string
+    ): ImageVersion {
+        return DatabaseService.transaction(() => {
+            const createdAt = new Date().toISOString();
+            const newVersion: ImageVersion = { ...version, id: 1, parentId: null, createdAt };
+
+            DatabaseService.getDatabase()
+                .prepare(
+                    `INSERT INTO generations
+                        (id, owner_id, origin, original_filename, enhanced_prompt,
+                        current_version_id, created_at)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)`
+                )
+                .run(
+                    id,
+                    ownerId,
+                    origin,
+                    originalFilename ?? null,
+                    version.enhancedPrompt ?? null,
+                    newVersion.id,
+                    createdAt
+                );
+            this.insertPrompt(id, 'image', version.prompt);
+            this.insertVersion(id, newVersion);
+
+            return newVersion;
+        });
+    }
+
+    // Records a new version and makes it current. The version id is allocated inside the
+    // transaction and passed to saveImages, so concurrent edits never share an id or a filename.
+    static addVersion(
+        id: number,
+        version: Omit<ImageVersion, 'id' | 'images' | 'createdAt'>,
+        saveImages: (versionId: number) => string[]
+    ): ImageVersion {
+        return DatabaseService.transaction(() => {
+            const database = DatabaseService.getDatabase();
+            const maxVersionId = database
+                .prepare('SELECT MAX(id) FROM versions WHERE generation_id = ?')
+                .pluck()
+                .get(id) as number | null;
+            const versionId = (maxVersionId || 0) + 1;
+            const newVersion: ImageVersion = {
+                ...version,
+                id: versionId,
+                images: saveImages(versionId),
+                createdAt: new Date().toISOString(),
+            };
+
+            this.insertVersion(id, newVersion);
+            if (version.operation === 'edit') {
+                this.insertPrompt(id, 'image', version.prompt);
+            }
+            database
+                .prepare('UPDATE generations SET current_version_id = ? WHERE id = ?')
+                .run(versionId, id);
+
+            return newVersion;
+        });
+    }
+
+    static insertVersion(id: number, version: ImageVersion): void {
+        DatabaseService.getDatabase()
+            .prepare(
+                `INSERT INTO versions
+                    (generation_id, id, parent_id, operation, prompt, enhanced_prompt, model,
+                    parameters, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                id,
+                version.id,
+                version.parentId,
+                version.operation,
+                version.prompt,
+                version.enhancedPrompt ?? null,
+                version.model ?? null,
+                JSON.stringify(version.parameters || {}),
+                version.createdAt
+            );
+
+        version.images.forEach((image) => this.insertAsset(id, version.id, 'image', image));
+    }
+
+    // Assets are unique by URL; re-saving a tracked file takes it back out of the trash.
+    // Returns the asset id.
+    static insertAsset(
+        id: number,
+        versionId: number | null,
+        kind: 'image' | 'video',
+        url: string
+    ): number {
+        const database = DatabaseService.getDatabase();
+
+        database
+            .prepare(
+                `INSERT INTO assets (generation_id, version_id, kind, url, created_at)
+                VALUES (?, ?, ?, ?, ?)
+                ON CONFLICT (url) DO UPDATE SET deleted_at = NULL`
+            )
+            .run(id, versionId, kind, url, new Date().toISOString());
+
+        return database.prepare('SELECT id FROM assets WHERE url = ?').pluck().get(url) as number;
+    }
+
+    private static insertPrompt(id: number, kind: 'image' | 'video', prompt: string): void {
+        DatabaseService.getDatabase()
+            .prepare(
+                'INSERT INTO prompts (generation_id, kind, prompt, created_at) VALUES (?, ?, ?, ?)'
+            )
+            .run(id, kind, prompt, new Date().toISOString());
+    }
+
+    static setCurrentVersion(id: number, versionId: number): boolean {
+        const { changes } = DatabaseService.getDatabase()
+            .prepare(
+                `UPDATE generations SET current_version_id = ?
+                WHERE id = ? AND EXISTS (SELECT 1 FROM versions WHERE generation_id = ? AND id = ?)`
+            )
+            .run(versionId, id, id, versionId);
+
+        return changes > 0;
+    }
+
+    // Versions from the original down to the given version
+    static getVersionLineage(entry: ImageMetadata, versionId: number): ImageVersion[] {
+        const versionsById = new Map(
+            (entry.versions || []).map((version) => [version.id, version])
+        );
+        const lineage: ImageVersion[] = [];
+        let version = versionsById.get(versionId);
+
+        while (version && !lineage.includes(version)) {
+            lineage.unshift(version);
+            version = version.parentId !== null ? versionsById.get(version.parentId) : undefined;
+        }
+
+        return lineage;
+    }
+
+    // Records each video as a take of its own. Take numbers are allocated inside the transaction
+    // and passed to saveVideo, so concurrent jobs never share a filename.
+    static addTakes(
+        id: number,
+        take: Pick<
+            VideoTake,
+            'prompt' | 'model' | 'parameters' | 'sourceVersionId' | 'sourceImage' | 'jobId'
+        >,
+        count: number,
+        saveVideo: (takeNumber: number, index: number) => string
+    ): VideoTake[] {
+        return DatabaseService.transaction(() => {
+            const database = DatabaseService.getDatabase();
+            const trimmedPrompt = take.prompt?.trim();
+            const usedNumbers = (
+                database
+                    .prepare(`SELECT url FROM assets WHERE generation_id = ? AND kind = 'video'`)
+                    .pluck()
+                    .all(id) as string[]
+            ).map((url) => VideoStorageService.getTakeNumber(url) ?? 0);
+            const firstNumber = Math.max(0, ...usedNumbers) + 1;
+            const insertTake = database.prepare(
+                `INSERT INTO takes
+                    (asset_id, job_id, prompt, model, parameters, source_version_id, source_image)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`
+            );
+
+            if (trimmedPrompt) {
+                this.insertPrompt(id, 'video', trimmedPrompt);
+            }
+            const assetIds = Array.from({ length: count }, (_, index) => {
+                const assetId = this.insertAsset(
+                    id,
+                    null,
+                    'video',
+                    saveVideo(firstNumber + index, index)
+                );
+                insertTake.run(
+                    assetId,
+                    take.jobId,
+                    trimmedPrompt || null,
+                    take.model,
+                    JSON.stringify(take.parameters),
+                    take.sourceVersionId,
+                    take.sourceImage
+                );
+                return assetId;
+            });
+
+            return this.getTakes(id).filter((videoTake) => assetIds.includes(videoTake.id));
+        });
+    }
+
+    // Videos without a recorded take (from before takes, or adopted from disk) show the last
+    // video prompt recorded before them, which belonged to the one video that was kept
+    static getTakes(id: number): VideoTake[] {
+        const rows = DatabaseService.getDatabase()
+            .prepare(
+                `SELECT a.id, a.url, a.created_at, t.job_id, t.model, t.parameters,
+                    t.source_version_id, t.source_image, COALESCE(t.starred, 0) AS starred,
+                    COALESCE(t.prompt, (SELECT prompt FROM prompts
+                        WHERE generation_id = a.generation_id AND kind = 'video'
+                        AND created_at <= a.created_at ORDER BY id DESC LIMIT 1)) AS prompt
+                FROM assets a LEFT JOIN takes t ON t.asset_id = a.id
+                WHERE a.generation_id = ? AND a.kind = 'video' AND a.deleted_at IS NULL
+                ORDER BY a.id`
+            )
+            .all(id) as TakeRow[];
+
+        return rows.map((row) => ({
+            id: row.id,
+            url: row.url,
+            prompt: row.prompt,
+            model: row.model,
+            parameters: row.parameters ? JSON.parse(row.parameters) : {},
+            sourceVersionId: row.source_version_id,
+            sourceImage: row.source_image,
+            jobId: row.job_id,
+            starred: row.starred === 1,
+            createdAt: row.created_at,
+        }));
+    }
+
+    // Videos without a recorded take get one, with only the star
+    static setTakeStarred(id: number, takeId: number, starred: boolean): boolean {
+        return DatabaseService.transaction(() => {
+            const database = DatabaseService.getDatabase();
+            const isTake = database
+                .prepare(
+                    `SELECT 1 FROM assets
+                    WHERE id = ? AND generation_id = ? AND kind = 'video' AND deleted_at IS NULL`
+                )
+                .get(takeId, id);
+
+            if (!isTake) {
+                return false;
+            }
+            database
+                .prepare(
+                    `INSERT INTO takes (asset_id, parameters, starred) VALUES (?, '{}', ?)
+                    ON CONFLICT (asset_id) DO UPDATE SET starred = excluded.starred`
+                )
+                .run(takeId, starred ? 1 : 0);
+            return true;
+        });
+    }
+
+    static getAssets(id: number): GenerationAsset[] {
+        const rows = DatabaseService.getDatabase()
+            .prepare(
+                `SELECT * FROM assets WHERE generation_id = ? AND deleted_at IS NULL ORDER BY id`
+            )
+            .all(id) as AssetRow[];
+
+        return rows.map((row) => this.toAsset(row));
+    }
+
+    // Trashed assets are only found with includeTrashed, for restoring them
+    static getAsset(
+        id: number,
+        assetId: number,
+        includeTrashed = false
+    ): GenerationAsset | undefined {
+        const row = DatabaseService.getDatabase()
+            .prepare(
+                `SELECT * FROM assets WHERE generation_id = ? AND id = ?
+                ${includeTrashed ? '' : 'AND deleted_at IS NULL'}`
+            )
+            .get(id, assetId) as AssetRow | undefined;
+
+        return row && this.toAsset(row);
+    }
+
+    static findAssetByUrl(url: string): (GenerationAsset & { generationId: number }) | undefined {
+        const row = DatabaseService.getDatabase()
+            .prepare('SELECT * FROM assets WHERE url = ? AND deleted_at IS NULL')
+            .get(url) as AssetRow | undefined;
+
+        return row && { ...this.toAsset(row), generationId: row.generation_id };
+    }
+
+    private static toAsset(row: AssetRow): GenerationAsset {
+        return { id: row.id, kind: row.kind, url: row.url, versionId: row.version_id };
+    }
+
+    static getMetadata(id: number): ImageMetadata | undefined {
+        const database = DatabaseService.getDatabase();
+        const generation = database
+            .prepare('SELECT * FROM generations WHERE id = ? AND deleted_at IS NULL')
+            .get(id) as GenerationRow | undefined;
+
+        if (!generation) {
+            return undefined;
+        }
+
+        const prompts = database
+            .prepare('SELECT kind, prompt FROM prompts WHERE generation_id = ? ORDER BY id')
+            .all(id) as PromptRow[];
+        const versionRows = database
+            .prepare('SELECT * FROM versions WHERE generation_id = ? ORDER BY id')
+            .all(id) as VersionRow[];
+        const imageRows = database
+            .prepare(
+                `SELECT * FROM assets
+                WHERE generation_id = ? AND kind = 'image' AND deleted_at IS NULL ORDER BY id`
+            )
+            .all(id) as AssetRow[];
+
+        return {
+            origin: generation.origin,
+            originalFilename: generation.original_filename ?? undefined,
+            prompts: prompts.filter((row) => row.kind === 'image').map((row) => row.prompt),
+            enhancedPrompt: generation.enhanced_prompt ?? undefined,
+            videoPrompts: prompts.filter((row) => row.kind === 'video').map((row) => row.prompt),
+            versions: versionRows.map((row) => ({
+                id: row.id,
+                parentId: row.parent_id,
+                operation: row.operation,
+                prompt: row.prompt,
+                enhancedPrompt: row.enhanced_prompt ?? undefined,
+                model: row.model ?? undefined,
+                parameters: JSON.parse(row.parameters),
+                images: imageRows
+                    .filter((image) => image.version_id === row.id)
+                    .map((image) => image.url),
+                createdAt: row.created_at,
+            })),
+            currentVersionId: generation.current_version_id ?? undefined,
+        };
+    }
+}
+
+class ReferenceImageService {
+    // Loads gallery references and saves uploaded ones so every reference has a stored path
+    static async resolveReferences(
+        references: ReferenceImageInput[],
+        userId: number
+    ): Promise<ResolvedReferenceImage[]> {
+        return Promise.all(
+            references.map(async (reference) => {
+                const { imageData, ...rest } = reference;
+                const galleryUrl = `/outputs/${reference.imagePath?.replace(/^\/?outputs\//, '')}`;
+                if (!imageData && !AccessService.canViewFile(userId, galleryUrl)) {
+                    throw new ValidationError(`Reference image not found: ${reference.imagePath}`);
+                }
+                const imagePath = imageData
+                    ? await this.saveUpload(reference.referenceId, imageData)
+                    : reference.imagePath!;
+
+                return {
+                    ...rest,
+                    imagePath,
+                    imageBase64: this.readOutputImage(imagePath).toString('base64'),
+                };
+            })
+        );
+    }
+
+    static toStored(reference: ResolvedReferenceImage): StoredReferenceImage {
+        const { imageBase64: _imageBase64, ...stored } = reference;
+        return stored;
+    }
+
+    private static readOutputImage(imagePath: string): Buffer {
+        const fullPath = FileUtils.outputUrlToPath(imagePath);
+
+        if (!fs.existsSync(fullPath)) {
+            throw new ValidationError(`Reference image not found: ${imagePath}`);
+        }
+
+        return fs.readFileSync(fullPath);
+    }
+
+    // Uploads are stored by content hash, so the same upload is only kept once
+    private static async saveUpload(referenceId: number, imageData: string): Promise<string> {
+        const buffer = ImageProcessingUtils.decodeBase64Image(imageData);
+
+        if (buffer.length > CONSTRAINTS.MAX_REFERENCE_IMAGE_BYTES) {
+            throw new ValidationError(`Reference [${referenceId}] is larger than 10 MB`);
+        }
+
+        const { format } = await sharp(buffer)
+            .metadata()
+            .catch(() => ({ format: undefined }));
+        if (format !== 'png' && format !== 'jpeg' && format !== 'webp') {
+            throw new ValidationError(
+                `Reference [${referenceId}] must be a PNG, JPEG or WebP image`
+            );
+        }
+
+        const hash = crypto.createHash('sha256').update(buffer).digest('hex').slice(0, 16);
+        const filename = `ref-${hash}.${format === 'jpeg' ? 'jpg' : format}`;
+
+        FileUtils.ensureDirectoryExists(PATHS.REFERENCES);
+        fs.writeFileSync(path.join(PATHS.REFERENCES, filename), buffer);
+
+        return `/outputs/references/${filename}`;
+    }
+}
+
+class ImageStorageService {
+    // Edited versions get their own files (result-{id}-v{version}[-{index}]) so earlier
+    // versions are never overwritten; the original keeps the plain result-{id} naming
+    static saveImage(
+        imageData: string,
+        mimeType: string,
+        generationId: number,
+        index?: number,
+        versionId?: number
+    ): string {
+        const fileExtension = FileUtils.getFileExtension(mimeType);
+        const baseName =
+            versionId !== undefined && versionId > 1
+                ? `result-${generationId}-v${versionId}`
+                : `result-${generationId}`;
+        const filename =
+            index !== undefined
+                ? `${baseName}-${index}.${fileExtension}`
+                : `${baseName}.${fileExtension}`;
+        const outputPath = path.join(PATHS.OUTPUTS, filename);
+
+        const imageBuffer = Buffer.from(imageData, 'base64');
+        fs.writeFileSync(outputPath, imageBuffer);
+
+        return `/outputs/${filename}`;
+    }
+
+    static saveImages(
+        predictions: PredictionResponse[],
+        generationId: number,
+        versionId?: number
+    ): string[] {
+        return predictions.map((prediction, index) =>
+            this.saveImage(
+                prediction.bytesBase64Encoded,
+                prediction.mimeType,
+                generationId,
+                predictions.length > 1 ? index : undefined,
+                versionId
+            )
+        );
+    }
+}
+
+class VideoStorageService {
+    // Every take gets its own file (result-{id}-take{n}), so a new video never replaces an
+    // earlier one. Videos from before takes keep their result-{id}-video names.
+    static getVideoFilename(generationId: number, takeNumber: number): string {
+        return `result-${generationId}-take${takeNumber}.mp4`;
+    }
+
+    static getTakeNumber(url: string): number | null {
+        const match = path.basename(url).match(/^result-\d+-take(\d+)\.mp4$/);
+        return match ? parseInt(match[1], 10) : null;
+    }
+
+    // Takes base64 from Veo, or the bytes of a locally rendered video
+    static saveVideo(videoData: string | Buffer, generationId: number, takeNumber: number): string {
+        const videoFilename = this.getVideoFilename(generationId, takeNumber);
+        const videoPath = path.join(PATHS.OUTPUTS, videoFilename);
+        const videoBuffer = Buffer.isBuffer(videoData)
+            ? videoData
+            : Buffer.from(videoData, 'base64');
+        fs.writeFileSync(videoPath, videoBuffer);
+
+        return `/outputs/${videoFilename}`;
+    }
+}
+
+const execFileAsync = promisify(execFile);
+
+// Local video processing with ffmpeg and ffprobe (FFMPEG_PATH, FFPROBE_PATH)
+class MediaService {
+    // Output beyond this is cut off; probes and error messages are far smaller
+    private static readonly MAX_OUTPUT_BYTES = 16 * 1024 * 1024;
+
+    private static async run(tool: string, args: string[]): Promise<string> {
+        try {
+            const { stdout } = await execFileAsync(tool, args, {
+                maxBuffer: this.MAX_OUTPUT_BYTES,
+            });
+            return stdout;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                throw new MediaUnavailableError(path.basename(tool));
+            }
+            // ffmpeg prints its banner first and the reason last
+            const stderr = String((error as { stderr?: string }).stderr || '').trim();
+            throw new Error(
+                `${path.basename(tool)} failed: ${stderr.split('\n').pop() || String(error)}`
+            );
+        }
+    }
+
+    static async probe(url: string): Promise<VideoProbe> {
+        const output = await this.run(CONFIG.FFPROBE_PATH, [
+            '-v',
+            'error',
+            '-show_entries',
+            'stream=codec_type,width,height:format=duration',
+            '-of',
+            'json',
+            FileUtils.outputUrlToPath(url),
+        ]).catch((error) => {
+            if (error instanceof MediaUnavailableError) {
+                throw error;
+            }
+            throw new ValidationError(`${path.basename(url)} is not a readable video`);
+        });
+        const { streams = [], format = {} } = JSON.parse(output) as {
+            streams?: Array<{ codec_type: string; width?: number; height?: number }>;
+            format?: { duration?: string };
+        };
+        const video = streams.find((stream) => stream.codec_type === 'video');
+        const duration = Number(format.duration);
+
+        if (!video?.width || !video.height || !(duration > 0)) {
+            throw new ValidationError(`${path.basename(url)} has no playable video`);
+        }
+
+        return {
+            duration,
+            width: video.width,
+            height: video.height,
+            hasAudio: streams.some((stream) => stream.codec_type === 'audio'),
+        };
+    }
+
+    // Decodes the final second and keeps overwriting one image, so the file ends up with the
+    // last frame
+    static async extractLastFrame(url: string): Promise<VideoFrame> {
+        await this.probe(url);
+        const framePath = path.join(os.tmpdir(), `last-frame-${crypto.randomUUID()}.png`);
+
+        try {
+            await this.run(CONFIG.FFMPEG_PATH, [
+                '-v',
+                'error',
+                '-sseof',
+                '-1',
+                '-i',
+                FileUtils.outputUrlToPath(url),
+                '-update',
+                '1',
+                '-y',
+                framePath,
+            ]);
+            return {
+                bytesBase64Encoded: fs.readFileSync(framePath).toString('base64'),
+                mimeType: 'image/png',
+            };
+        } finally {
+            fs.rmSync(framePath, { force: true });
+        }
+    }
+
+    // ffmpeg's test pattern, with a tone when audio is asked for
+    static async renderTestPattern(
+        width: number,
+        height: number,
+        duration: number,
+        withAudio: boolean
+    ): Promise<Buffer> {
+        const outputPath = path.join(os.tmpdir(), `test-pattern-${crypto.randomUUID()}.mp4`);
+
+        try {
+            await this.run(CONFIG.FFMPEG_PATH, [
+                '-v',
+                'error',
+                '-f',
+                'lavfi',
+                '-i',
+                `testsrc=size=${width}x${height}:rate=24:duration=${duration}`,
+                ...(withAudio
+                    ? [
+                          '-f',
+                          'lavfi',
+                          '-i',
+                          `sine=frequency=440:duration=${duration}`,
+                          '-c:a',
+                          'aac',
+                      ]
+                    : []),
+                '-c:v',
+                'libx264',
+                '-pix_fmt',
+                'yuv420p',
+                '-movflags',
+                '+faststart',
+                '-y',
+                outputPath,
+            ]);
+            return fs.readFileSync(outputPath);
+        } finally {
+            fs.rmSync(outputPath, { force: true });
+        }
+    }
+
+    // Joins the clips in order, scaled and padded to the first clip's size. With a crossfade each
+    // clip fades into the next, which shortens the result by the crossfade per join. Audio is kept
+    // only when every clip has some.
+    static async stitch(
+        clips: Array<{ url: string; probe: VideoProbe }>,
+        crossfade: number,
+        outputPath: string
+    ): Promise<void> {
+        const { width, height } = clips[0].probe;
+        const hasAudio = clips.every((clip) => clip.probe.hasAudio);
+        const filters = clips.map(
+            (_, index) =>
+                `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+                `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=24,format=yuv420p[v${index}]`
+        );
+
+        if (crossfade > 0) {
+            let offset = 0;
+            clips.slice(1).forEach((_, index) => {
+                offset += clips[index].probe.duration - crossfade;
+                const input = index === 0 ? '[v0]' : `[xv${index}]`;
+                filters.push(
+                    `${input}[v${index + 1}]xfade=transition=fade:duration=${crossfade}:` +
+                        `offset=${offset.toFixed(3)}[xv${index + 1}]`
+                );
+                if (hasAudio) {
+                    const audioInput = index === 0 ? '[0:a]' : `[xa${index}]`;
+                    filters.push(
+                        `${audioInput}[${index + 1}:a]acrossfade=d=${crossfade}[xa${index + 1}]`
+                    );
+                }
+            });
+        } else {
+            const inputs = clips
+                .map((_, index) => (hasAudio ? `[v${index}][${index}:a]` : `[v${index}]`))
+                .join('');
+            filters.push(
+                `${inputs}concat=n=${clips.length}:v=1:a=${hasAudio ? 1 : 0}` +
+                    `[xv${clips.length - 1}]${hasAudio ? `[xa${clips.length - 1}]` : ''}`
+            );
+        }
+
+        const last = clips.length - 1;
+        await this.run(CONFIG.FFMPEG_PATH, [
+            '-v',
+            'error',
+            ...clips.flatMap((clip) => ['-i', FileUtils.outputUrlToPath(clip.url)]),
+            '-filter_complex',
+            filters.join(';'),
+            '-map',
+            `[xv${last}]`,
+            ...(hasAudio ? ['-map', `[xa${last}]`, '-c:a', 'aac'] : []),
+            '-c:v',
+            'libx264',
+            '-pix_fmt',
+            'yuv420p',
+            '-movflags',
+            '+faststart',
+            '-y',
+            outputPath,
+        ]);
+    }
+}
+
+class SequenceService {
+    // Stitches the takes into a new generation that has only the stitched video. The clips are
+    // rendered before anything is recorded, so a failed render leaves nothing behind.
+    static async create(
+        ownerId: number,
+        segments: SequenceSegment[],
+        clips: Array<{ url: string; probe: VideoProbe }>,
+        crossfade: number,
+        title: string
+    ): Promise<number> {
+        const renderPath = path.join(os.tmpdir(), `sequence-${crypto.randomUUID()}.mp4`);
+
+        try {
+            await MediaService.stitch(clips, crossfade, renderPath);
+
+            return DatabaseService.transaction(() => {
+                const generationId = MetadataService.allocateGenerationId();
+
+                MetadataService.createGeneration(generationId, ownerId, {
+                    operation: 'sequence',
+                    prompt: title,
+                    parameters: { segments, crossfade },
+                    images: [],
+                });
+                MetadataService.addTakes(
+                    generationId,
+                    {
+                        prompt: title,
+                        model: null,
+                        parameters: {},
+                        sourceVersionId: null,
+                        sourceImage: null,
+                        jobId: null,
+                    },
+                    1,
+                    (takeNumber) =>
+                        VideoStorageService.saveVideo(
+                            fs.readFileSync(renderPath),
+                            generationId,
+                            takeNumber
+                        )
+                );
+                return generationId;
+            });
+        } finally {
+            fs.rmSync(renderPath, { force: true });
+        }
+    }
+}
+
+class ResultService {
+    // Newest first; the cursor is the id of the last generation on the previous page
+    static searchResults(query: ResultQuery, userId: number): ResultPage {
+        const conditions = [
+            'g.deleted_at IS NULL',
+            `EXISTS (SELECT 1 FROM assets WHERE generation_id = g.id AND deleted_at IS NULL)`,
+        ];
+        const params: Array<string | number> = [];
+
+        const shared = 'g.id IN (SELECT generation_id FROM shares WHERE user_id = ?)';
+        if (query.scope === 'mine') {
+            conditions.push('g.owner_id = ?');
+            params.push(userId);
+        } else if (query.scope === 'shared') {
+            conditions.push(shared);
+            params.push(userId);
+        } else {
+            conditions.push(`(g.owner_id = ? OR ${shared})`);
+            params.push(userId, userId);
+        }
+
+        if (query.search) {
+            conditions.push(
+                `g.id IN (SELECT p.generation_id FROM prompts_fts
+                JOIN prompts p ON p.id = prompts_fts.rowid WHERE prompts_fts MATCH ?)`
+            );
+            params.push(this.toFtsQuery(query.search));
+        }
+        if (query.from) {
+            conditions.push('g.created_at >= ?');
+            params.push(query.from);
+        }
+        if (query.to) {
+            conditions.push('g.created_at <= ?');
+            params.push(query.to);
+        }
+        if (query.hasVideo !== undefined) {
+            conditions.push(
+                `${query.hasVideo ? '' : 'NOT '}EXISTS
+                (SELECT 1 FROM assets
+                WHERE generation_id = g.id AND kind = 'video' AND deleted_at IS NULL)`
+            );
+        }
+        // Aspect ratio and sample count are those of the original generation
+        if (query.aspectRatio) {
+            conditions.push(
+                `EXISTS (SELECT 1 FROM versions WHERE generation_id = g.id AND id = 1
+                AND json_extract(parameters, '$.aspectRatio') = ?)`
+            );
+            params.push(query.aspectRatio);
+        }
+        if (query.sampleCount) {
+            conditions.push(
+                `EXISTS (SELECT 1 FROM versions WHERE generation_id = g.id AND id = 1
+                AND json_extract(parameters, '$.sampleCount') = ?)`
+            );
+            params.push(query.sampleCount);
+        }
+        if (query.cursor) {
+            conditions.push('g.id < ?');
+            params.push(query.cursor);
+        }
+
+        // One extra row tells whether another page exists
+        const generationIds = DatabaseService.getDatabase()
+            .prepare(
+                `SELECT g.id FROM generations g WHERE ${conditions.join(' AND ')}
+                ORDER BY g.id DESC LIMIT ?`
+            )
+            .pluck()
+            .all(...params, query.limit + 1) as number[];
+        const pageIds = generationIds.slice(0, query.limit);
+
+        return {
+            results: pageIds
+                .map((id) => this.getResult(id))
+                .filter((result): result is ImageGenerationResult => result !== undefined),
+            nextCursor: generationIds.length > query.limit ? pageIds[pageIds.length - 1] : null,
+        };
+    }
+
+    // Quotes every word so user input cannot use FTS syntax; each word matches as a prefix
+    private static toFtsQuery(search: string): string {
+        return search
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((word) => `"${word.replace(/"/g, '""')}"*`)
+            .join(' ');
+    }
+
+    static getResult(id: number): ImageGenerationResult | undefined {
+        const metadataEntry = MetadataService.getMetadata(id);
+        const versions = metadataEntry?.versions || [];
+        const currentVersion = versions.find(
+            (version) => version.id === metadataEntry?.currentVersionId
+        );
+        // Fall back to the latest version with images if the current one has none; text-to-video
+        // generations have no images at all
+        const displayedVersion = currentVersion?.images.length
+            ? currentVersion
+            : [...versions].reverse().find((version) => version.images.length > 0) ||
+              currentVersion;
+        const takes = MetadataService.getTakes(id);
+        const videos = takes.map((take) => take.url);
+
+        if (
+            !metadataEntry ||
+            !displayedVersion ||
+            (displayedVersion.images.length === 0 && videos.length === 0)
+        ) {
+            return undefined;
+        }
+
+        return {
+            id,
+            origin: metadataEntry.origin || 'generated',
+            prompts: MetadataService.getVersionLineage(metadataEntry, displayedVersion.id).map(
+                (version) => version.prompt
+            ),
+            videoPrompts: metadataEntry.videoPrompts || [],
+            resultImages: [...displayedVersion.images].sort(),
+            resultVideos: videos.length > 0 ? videos : undefined,
+            takes,
+            sequence:
+                displayedVersion.operation === 'sequence'
+                    ? {
+                          segments: displayedVersion.parameters?.segments ?? [],
+                          crossfade: displayedVersion.parameters?.crossfade ?? 0,
+                      }
+                    : undefined,
+            assets: MetadataService.getAssets(id),
+            currentVersionId: metadataEntry.currentVersionId,
+            versions,
+            owner: AccessService.getOwner(id),
+        };
+    }
+}
+
+class UserService {
+    static hasUsers(): boolean {
+        return (
+            DatabaseService.getDatabase().prepare('SELECT 1 FROM users LIMIT 1').get() !== undefined
+        );
+    }
+
+    // The first account becomes the admin and adopts every generation created before accounts
+    static async createUser(username: string, password: string): Promise<User> {
+        if (!USERNAME_PATTERN.test(username)) {
+            throw new AccountError(
+                'Usernames are 3-32 characters: letters, digits, dots, dashes and underscores'
+            );
+        }
+        if (password.length < CONSTRAINTS.MIN_PASSWORD_LENGTH) {
+            throw new AccountError(
+                `Passwords must be at least ${CONSTRAINTS.MIN_PASSWORD_LENGTH} characters`
+            );
+        }
+
+        const passwordHash = await this.hashPassword(password);
+
+        return DatabaseService.transaction(() => {
+            const database = DatabaseService.getDatabase();
+            if (this.getUserRow(username)) {
+                throw new AccountError(`The username "${username}" is taken`);
+            }
+
+            const isAdmin = !this.hasUsers();
+            const { lastInsertRowid } = database
+                .prepare(
+                    `INSERT INTO users (username, password_hash, is_admin, created_at)
+                    VALUES (?, ?, ?, ?)`
+                )
+                .run(username, passwordHash, isAdmin ? 1 : 0, new Date().toISOString());
+            const userId = Number(lastInsertRowid);
+
+            if (isAdmin) {
+                database
+                    .prepare('UPDATE generations SET owner_id = ? WHERE owner_id IS NULL')
+                    .run(userId);
+            }
+
+            return this.getUser(userId)!;
+        });
+    }
+
+    static getUser(id: number): User | undefined {
+        const row = DatabaseService.getDatabase()
+            .prepare('SELECT * FROM users WHERE id = ?')
+            .get(id) as UserRow | undefined;
+
+        return row && this.toUser(row);
+    }
+
+    static getUserByName(username: string): User | undefined {
+        const row = this.getUserRow(username);
+        return row && this.toUser(row);
+    }
+
+    static listUsers(): User[] {
+        return (
+            DatabaseService.getDatabase()
+                .prepare('SELECT * FROM users ORDER BY username')
+                .all() as UserRow[]
+        ).map((row) => this.toUser(row));
+    }
+
+    static async verifyPassword(username: string, password: string): Promise<User | undefined> {
+        const row = this.getUserRow(username);
+        if (!row) {
+            return undefined;
+        }
+
+        const [, salt, expected] = row.password_hash.split('$');
+        const actual = await this.scrypt(password, Buffer.from(salt, 'base64'));
+
+        return crypto.timingSafeEqual(actual, Buffer.from(expected, 'base64'))
+            ? this.toUser(row)
+            : undefined;
+    }
+
+    // Returns the session token; only its hash is stored
+    static createSession(userId: number): string {
+        const token = crypto.randomBytes(32).toString('base64url');
+        const now = Date.now();
+
+        DatabaseService.getDatabase()
+            .prepare(
+                'INSERT INTO sessions (token_hash, user_id, expires_at, created_at) VALUES (?, ?, ?, ?)'
+            )
+            .run(
+                this.hashToken(token),
+                userId,
+                new Date(now + CONFIG.SESSION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+                new Date(now).toISOString()
+            );
+
+        return token;
+    }
+
+    static getSessionUser(token: string): User | undefined {
+        const database = DatabaseService.getDatabase();
+        database
+            .prepare('DELETE FROM sessions WHERE expires_at <= ?')
+            .run(new Date().toISOString());
+
+        const row = database
+            .prepare(
+                `SELECT u.* FROM sessions s JOIN users u ON u.id = s.user_id
+                WHERE s.token_hash = ?`
+            )
+            .get(this.hashToken(token)) as UserRow | undefined;
+
+        return row && this.toUser(row);
+    }
+
+    static deleteSession(token: string): void {
+        DatabaseService.getDatabase()
+            .prepare('DELETE FROM sessions WHERE token_hash = ?')
+            .run(this.hashToken(token));
+    }
+
+    // Returns the key itself once; only its hash is stored
+    static createApiKey(userId: number, name: string): { key: string; apiKey: ApiKeyInfo } {
+        const key = API_KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+        const prefix = key.slice(0, API_KEY_PREFIX.length + 6);
+
+        const { lastInsertRowid } = DatabaseService.getDatabase()
+            .prepare(
+                `INSERT INTO api_keys (user_id, name, prefix, key_hash, created_at)
+                VALUES (?, ?, ?, ?, ?)`
+            )
+            .run(userId, name, prefix, this.hashToken(key), new Date().toISOString());
+
+        return {
+            key,
+            apiKey: this.listApiKeys(userId).find(
+                (apiKey) => apiKey.id === Number(lastInsertRowid)
+            )!,
+        };
+    }
+
+    static listApiKeys(userId: number): ApiKeyInfo[] {
+        const rows = DatabaseService.getDatabase()
+            .prepare('SELECT * FROM api_keys WHERE user_id = ? ORDER BY id')
+            .all(userId) as ApiKeyRow[];
+
+        return rows.map((row) => ({
+            id: row.id,
+            name: row.name,
+            prefix: row.prefix,
+            createdAt: row.created_at,
+            lastUsedAt: row.last_used_at ?? undefined,
+        }));
+    }
+
+    static deleteApiKey(userId: number, id: number): boolean {
+        const { changes } = DatabaseService.getDatabase()
+            .prepare('DELETE FROM api_keys WHERE id = ? AND user_id = ?')
+            .run(id, userId);
+
+        return changes > 0;
+    }
+
+    static getApiKeyUser(key: string): User | undefined {
+        const database = DatabaseService.getDatabase();
+        const keyHash = this.hashToken(key);
+        const row = database
+            .prepare(
+                `SELECT u.* FROM api_keys k JOIN users u ON u.id = k.user_id
+                WHERE k.key_hash = ?`
+            )
+            .get(keyHash) as UserRow | undefined;
+
+        if (row) {
+            database
+                .prepare('UPDATE api_keys SET last_used_at = ? WHERE key_hash = ?')
+                .run(new Date().toISOString(), keyHash);
+        }
+
+        return row && this.toUser(row);
+    }
+
+    private static getUserRow(username: string): UserRow | undefined {
+        return DatabaseService.getDatabase()
+            .prepare('SELECT * FROM users WHERE username = ?')
+            .get(username) as UserRow | undefined;
+    }
+
+    private static toUser(row: UserRow): User {
+        return {
+            id: row.id,
+            username: row.username,
+            isAdmin: row.is_admin === 1,
+            createdAt: row.created_at,
+        };
+    }
+
+    // Stored as scrypt$<salt>$<hash>, both base64
+    private static async hashPassword(password: string): Promise<string> {
+        const salt = crypto.randomBytes(16);
+        const hash = await this.scrypt(password, salt);
+        return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+    }
+
+    private static scrypt(password: string, salt: Buffer): Promise<Buffer> {
+        return new Promise((resolve, reject) =>
+            crypto.scrypt(password, salt, 64, (error, hash) =>
+                error ? reject(error) : resolve(hash)
+            )
+        );
+    }
+
+    // Session tokens and API keys are random, so a plain hash is enough to keep them out of the db
+    private static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+}
+
+class AccessService {
+    // Owners keep access to their trashed generations; shares only cover live ones
+    static getAccess(userId: number, generationId: number): GenerationAccess | null {
+        const database = DatabaseService.getDatabase();
+        const generation = database
+            .prepare('SELECT owner_id, deleted_at FROM generations WHERE id = ?')
+            .get(generationId) as Pick<GenerationRow, 'owner_id' | 'deleted_at'> | undefined;
+
+        if (!generation) {
+            return null;
+        }
+        if (generation.owner_id === userId) {
+            return 'owner';
+        }
+
+        const isShared =
+            generation.deleted_at === null &&
+            database
+                .prepare('SELECT 1 FROM shares WHERE generation_id = ? AND user_id = ?')
+                .get(generationId, userId) !== undefined;
+
+        return isShared ? 'shared' : null;
+    }
+
+    // Everyone who should hear about changes to a generation: its owner and the users it is
+    // shared with, including while it is in the trash so their galleries can drop it
+    static getAudience(generationId: number): number[] {
+        return DatabaseService.getDatabase()
+            .prepare(
+                `SELECT owner_id FROM generations WHERE id = ? AND owner_id IS NOT NULL
+                UNION SELECT user_id FROM shares WHERE generation_id = ?`
+            )
+            .pluck()
+            .all(generationId, generationId) as number[];
+    }
+
+    static getOwner(generationId: number): { id: number; username: string } | undefined {
+        return DatabaseService.getDatabase()
+            .prepare(
+                `SELECT u.id, u.username FROM generations g JOIN users u ON u.id = g.owner_id
+                WHERE g.id = ?`
+            )
+            .get(generationId) as { id: number; username: string } | undefined;
+    }
+
+    // Files under /outputs: assets of generations the user can access, and references used by
+    // those generations. Anything else, including the database, is not served.
+    static canViewFile(userId: number, url: string): boolean {
+        const database = DatabaseService.getDatabase();
+        const generationIds = url.startsWith('/outputs/references/')
+            ? (database
+                  .prepare(
+                      `SELECT DISTINCT generation_id FROM versions WHERE EXISTS (
+                          SELECT 1 FROM json_each(parameters, '$.references')
+                          WHERE json_extract(value, '$.imagePath') = ?
+                      )`
+                  )
+                  .pluck()
+                  .all(url) as number[])
+            : (database
+                  .prepare('SELECT generation_id FROM assets WHERE url = ?')
+                  .pluck()
+                  .all(url) as number[]);
+
+        return generationIds.some((generationId) => this.getAccess(userId, generationId) !== null);
+    }
+
+    static listShares(generationId: number): Array<{ username: string; sharedAt: string }> {
+        return DatabaseService.getDatabase()
+            .prepare(
+                `SELECT u.username, s.created_at AS sharedAt FROM shares s
+                JOIN users u ON u.id = s.user_id WHERE s.generation_id = ? ORDER BY u.username`
+            )
+            .all(generationId) as Array<{ username: string; sharedAt: string }>;
+    }
+
+    static share(generationId: number, userId: number): void {
+        DatabaseService.getDatabase()
+            .prepare(
+                'INSERT OR IGNORE INTO shares (generation_id, user_id, created_at) VALUES (?, ?, ?)'
+            )
+            .run(generationId, userId, new Date().toISOString());
+    }
+
+    static unshare(generationId: number, userId: number): boolean {
+        const { changes } = DatabaseService.getDatabase()
+            .prepare('DELETE FROM shares WHERE generation_id = ? AND user_id = ?')
+            .run(generationId, userId);
+
+        return changes > 0;
+    }
+}
+
+class TrashService {
+    static trashGeneration(id: number): boolean {
+        const { changes } = DatabaseService.getDatabase()
+            .prepare('UPDATE generations SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL')
+            .run(new Date().toISOString(), id);
+
+        return changes > 0;
+    }
+
+    static restoreGeneration(id: number): boolean {
+        const { changes } = DatabaseService.getDatabase()
+            .prepare(
+                'UPDATE generations SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL'
+            )
+            .run(id);
+
+        return changes > 0;
+    }
+
+    static trashAsset(generationId: number, url: string): boolean {
+        const { changes } = DatabaseService.getDatabase()
+            .prepare(
+                `UPDATE assets SET deleted_at = ?
+                WHERE generation_id = ? AND url = ? AND deleted_at IS NULL`
+            )
+            .run(new Date().toISOString(), generationId, url);
+
+        return changes > 0;
+    }
+
+    static restoreAsset(generationId: number, url: string): boolean {
+        const { changes } = DatabaseService.getDatabase()
+            .prepare(
+                `UPDATE assets SET deleted_at = NULL
+                WHERE generation_id = ? AND url = ? AND deleted_at IS NOT NULL`
+            )
+            .run(generationId, url);
+
+        return changes > 0;
+    }
+
+    static listTrash(ownerId: number): {
+        generations: TrashedGeneration[];
+        assets: TrashedAsset[];
+    } {
+        const database = DatabaseService.getDatabase();
+        const generationRows = database
+            .prepare(
+                `SELECT g.id, g.deleted_at,
+                    (SELECT prompt FROM prompts
+                    WHERE generation_id = g.id AND kind = 'image' ORDER BY id LIMIT 1) AS prompt
+                FROM generations g WHERE g.deleted_at IS NOT NULL AND g.owner_id = ?
+                ORDER BY g.deleted_at DESC`
+            )
+            .all(ownerId) as Array<{ id: number; deleted_at: string; prompt: string | null }>;
+        const selectImages = database
+            .prepare(
+                `SELECT url FROM assets
+                WHERE generation_id = ? AND kind = 'image' AND deleted_at IS NULL ORDER BY id`
+            )
+            .pluck();
+        const assetRows = database
+            .prepare(
+                `SELECT a.id, a.generation_id, a.kind, a.url, a.deleted_at FROM assets a
+                JOIN generations g ON g.id = a.generation_id
+                WHERE a.deleted_at IS NOT NULL AND g.deleted_at IS NULL AND g.owner_id = ?
+                ORDER BY a.deleted_at DESC`
+            )
+            .all(ownerId) as Array<{
+            id: number;
+            generation_id: number;
+            kind: 'image' | 'video';
+            url: string;
+            deleted_at: string;
+        }>;
+
+        return {
+            generations: generationRows.map((row) => ({
+                id: row.id,
+                prompt: row.prompt ?? undefined,
+                images: selectImages.all(row.id) as string[],
+                deletedAt: row.deleted_at,
+            })),
+            assets: assetRows.map((row) => ({
+                id: row.id,
+                generationId: row.generation_id,
+                kind: row.kind,
+                url: row.url,
+                deletedAt: row.deleted_at,
+            })),
+        };
+    }
+
+    // Permanently removes everything the owner trashed before the cutoff. Rows are deleted first and files
+    // afterwards, so a failed unlink leaves an orphaned file rather than a dangling entry.
+    static purge(
+        ownerId: number,
+        deletedBefore: string = new Date().toISOString()
+    ): {
+        generations: number;
+        assets: number;
+    } {
+        const { files, generations, assets } = DatabaseService.transaction(() => {
+            const database = DatabaseService.getDatabase();
+            const generationIds = database
+                .prepare(
+                    `SELECT id FROM generations
+                    WHERE deleted_at IS NOT NULL AND deleted_at <= ? AND owner_id = ?`
+                )
+                .pluck()
+                .all(deletedBefore, ownerId) as number[];
+            const generationFiles = generationIds.flatMap(
+                (id) =>
+                    database
+                        .prepare('SELECT url FROM assets WHERE generation_id = ?')
+                        .pluck()
+                        .all(id) as string[]
+            );
+            const assetFiles = database
+                .prepare(
+                    `SELECT url FROM assets WHERE deleted_at IS NOT NULL AND deleted_at <= ?
+                    AND generation_id IN
+                        (SELECT id FROM generations WHERE deleted_at IS NULL AND owner_id = ?)`
+                )
+                .pluck()
+                .all(deletedBefore, ownerId) as string[];
+
+            const deleteGeneration = database.prepare('DELETE FROM generations WHERE id = ?');
+            const deleteJobs = database.prepare('DELETE FROM jobs WHERE generation_id = ?');
+            generationIds.forEach((id) => {
+                deleteGeneration.run(id); // Versions, prompts and assets cascade
+                deleteJobs.run(id);
+            });
+            const deleteAsset = database.prepare('DELETE FROM assets WHERE url = ?');
+            assetFiles.forEach((url) => deleteAsset.run(url));
+
+            return {
+                files: [...generationFiles, ...assetFiles],
+                generations: generationIds.length,
+                assets: assetFiles.length,
+            };
+        });
+
+        files.forEach((url) => {
+            try {
+                FileUtils.removeOutputFile(url);
+            } catch (error) {
+                console.error(`Error removing ${url}:`, error);
+            }
+        });
+
+        return { generations, assets };
+    }
+}
+
+class ConsistencyService {
+    static check(): ConsistencyReport {
+        const database = DatabaseService.getDatabase();
+        const trackedUrls = database.prepare('SELECT url FROM assets').pluck().all() as string[];
+        const tracked = new Set(trackedUrls);
+
+        const orphanedFiles = fs
+            .readdirSync(PATHS.OUTPUTS, { withFileTypes: true })
+            .filter((entry) => entry.isFile() && FileUtils.extractGenerationId(entry.name) !== null)
+            .map((entry) => `/outputs/${entry.name}`)
+            .filter((url) => !tracked.has(url))
+            .sort();
+        const missingFiles = trackedUrls.filter(
+            (url) => !fs.existsSync(FileUtils.outputUrlToPath(url))
+        );
+
+        return { orphanedFiles, missingFiles, emptyGenerations: this.getEmptyGenerations() };
+    }
+
+    private static getEmptyGenerations(): number[] {
+        return DatabaseService.getDatabase()
+            .prepare(
+                `SELECT id FROM generations g
+                WHERE NOT EXISTS (SELECT 1 FROM assets WHERE generation_id = g.id)
+                AND NOT EXISTS (SELECT 1 FROM jobs
+                    WHERE generation_id = g.id AND status IN ('queued', 'running'))
+                ORDER BY id`
+            )
+            .pluck()
+            .all() as number[];
+    }
+
+    // Orphaned videos are attached to their generation and other orphaned files are moved aside;
+    // entries for missing files are dropped, then generations left without assets
+    static repair(): ConsistencyRepair {
+        const report = this.check();
+        const adoptedVideos: string[] = [];
+        const quarantinedFiles: string[] = [];
+
+        report.orphanedFiles.forEach((url) => {
+            const filename = path.basename(url);
+            const generationId = FileUtils.extractGenerationId(filename)!;
+            const generationExists = DatabaseService.getDatabase()
+                .prepare('SELECT 1 FROM generations WHERE id = ?')
+                .get(generationId);
+
+            if (filename.endsWith('.mp4') && generationExists) {
+                MetadataService.insertAsset(generationId, null, 'video', url);
+                adoptedVideos.push(url);
+                return;
+            }
+
+            FileUtils.ensureDirectoryExists(PATHS.ORPHANED);
+            fs.renameSync(path.join(PATHS.OUTPUTS, filename), path.join(PATHS.ORPHANED, filename));
+            quarantinedFiles.push(`/outputs/orphaned/${filename}`);
+        });
+
+        const removedGenerations = DatabaseService.transaction(() => {
+            const database = DatabaseService.getDatabase();
+            const deleteAsset = database.prepare('DELETE FROM assets WHERE url = ?');
+            report.missingFiles.forEach((url) => deleteAsset.run(url));
+
+            const emptyGenerations = this.getEmptyGenerations();
+            const deleteGeneration = database.prepare('DELETE FROM generations WHERE id = ?');
+            emptyGenerations.forEach((id) => deleteGeneration.run(id));
+            return emptyGenerations;
+        });
+
+        return {
+            adoptedVideos,
+            quarantinedFiles,
+            removedAssets: report.missingFiles,
+            removedGenerations,
+        };
+    }
+}
+
+class UsageService {
+    private static pricing: Record<string, ModelPrice> | null = null;
+
+    // Called at startup so that a bad PRICING_FILE stops the server, rather than failing the
+    // requests that record usage
+    static loadPricing(): void {
+        this.pricing = { ...DEFAULT_PRICING, ...this.readPricingFile() };
+    }
+
+    static getPricing(): Record<string, ModelPrice> {
+        if (!this.pricing) {
+            this.loadPricing();
+        }
+
+        return this.pricing!;
+    }
+
+    private static readPricingFile(): Record<string, ModelPrice> {
+        if (!CONFIG.PRICING_FILE) {
+            return {};
+        }
+
+        const filePath = path.resolve(CONFIG.PRICING_FILE);
+        let overrides: unknown;
+        try {
+            overrides = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        } catch (error) {
+            throw new Error(
+                `PRICING_FILE ${filePath} could not be read: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        const isObject = (value: unknown): value is Record<string, unknown> =>
+            typeof value === 'object' && value !== null && !Array.isArray(value);
+        if (!isObject(overrides)) {
+            throw new Error(`PRICING_FILE ${filePath} must be a JSON object of prices by model id`);
+        }
+
+        const fields: Array<keyof ModelPrice> = ['perImage', 'perSecond', 'perSecondWithAudio'];
+        Object.entries(overrides).forEach(([model, price]) => {
+            const valid =
+                isObject(price) &&
+                Object.entries(price).every(
+                    ([field, value]) =>
+                        fields.includes(field as keyof ModelPrice) &&
+                        typeof value === 'number' &&
+                        Number.isFinite(value) &&
+                        value >= 0
+                );
+            if (!valid) {
+                throw new Error(
+                    `PRICING_FILE ${filePath}: the price for "${model}" must be an object with non-negative ${fields.join(', ')} numbers`
+                );
+            }
+        });
+
+        return overrides as Record<string, ModelPrice>;
+    }
+
+    static estimateCost(
+        model: string,
+        outputCount: number,
+        durationSeconds?: number,
+        generateAudio?: boolean
+    ): number {
+        const price = this.getPricing()[model];
+
+        if (!price) {
+            return 0;
+        }
+
+        if (durationSeconds !== undefined) {
+            const perSecond = (generateAudio && price.perSecondWithAudio) || price.perSecond || 0;
+            return perSecond * durationSeconds * outputCount;
+        }
+
+        return (price.perImage || 0) * outputCount;
+    }
+
+    static estimateVideoCost(
+        durationSeconds: number = CONSTRAINTS.DEFAULT_VIDEO_DURATION,
+        model: string = CONFIG.VEO_MODEL,
+        generateAudio: boolean = VideoGenerationService.generatesAudio(model),
+        sampleCount = 1
+    ): number {
+        return this.estimateCost(model, sampleCount, durationSeconds, generateAudio);
+    }
+
+    static getOutcome(error: unknown): UsageOutcome {
+        return error instanceof SafetyFilteredError ? 'safety-filtered' : 'failed';
+    }
+
+    // Only returned outputs are billed, so failed and filtered calls cost nothing
+    static record(entry: UsageEntry): void {
+        const estimatedCost =
+            entry.outcome === 'succeeded'
+                ? this.estimateCost(
+                      entry.model,
+                      entry.outputCount,
+                      entry.durationSeconds,
+                      entry.generateAudio
+                  )
+                : 0;
+
+        try {
+            DatabaseService.getDatabase()
+                .prepare(
+                    `INSERT INTO usage
+                        (generation_id, model, operation, sample_count, output_count, duration_seconds,
+                        generate_audio, outcome, latency_ms, estimated_cost_usd, created_at)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+                )
+                .run(
+                    entry.generationId ?? null,
+                    entry.model,
+                    entry.operation,
+                    entry.sampleCount,
+                    entry.outputCount,
+                    entry.durationSeconds ?? null,
+                    entry.generateAudio ? 1 : 0,
+                    entry.outcome,
+                    entry.latencyMs,
+                    estimatedCost,
+                    new Date().toISOString()
+                );
+        } catch (error) {
+            // A ledger failure must not fail a generation that has already been paid for
+            console.error('Error recording usage:', error);
+        }
+    }
+
+    static getBudgets(): Record<'daily' | 'monthly', BudgetStatus> {
+        const now = new Date();
+        const startOfDay = new Date(
+            Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+        );
+        const startOfMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+        const pendingUsd = JobService.getPendingJobs().reduce(
+            (total, job) =>
+                total +
+                this.estimateVideoCost(
+                    job.params.duration,
+                    job.params.model,
+                    job.params.generateAudio,
+                    job.params.sampleCount
+                ),
+            0
+        );
+        const status = (limitUsd: number | null, since: Date, resetsAt: Date): BudgetStatus => {
+            const spentUsd = DatabaseService.getDatabase()
+                .prepare(
+                    'SELECT COALESCE(SUM(estimated_cost_usd), 0) FROM usage WHERE created_at >= ?'
+                )
+                .pluck()
+                .get(since.toISOString()) as number;
+
+            return {
+                limitUsd,
+                spentUsd: this.roundUsd(spentUsd),
+                pendingUsd: this.roundUsd(pendingUsd),
+                remainingUsd:
+                    limitUsd !== null
+                        ? this.roundUsd(Math.max(0, limitUsd - spentUsd - pendingUsd))
+                        : null,
+                resetsAt: resetsAt.toISOString(),
+            };
+        };
+
+        return {
+            daily: status(
+                CONFIG.DAILY_BUDGET_USD,
+                startOfDay,
+                new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000)
+            ),
+            monthly: status(
+                CONFIG.MONTHLY_BUDGET_USD,
+                startOfMonth,
+                new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+            ),
+        };
+    }
+
+    // Refuses a request whose estimated cost would take spending (including running video jobs)
+    // over the daily or monthly budget
+    static assertWithinBudget(estimatedCostUsd: number): void {
+        const budgets = this.getBudgets();
+
+        (['daily', 'monthly'] as const).forEach((period) => {
+            const status = budgets[period];
+            if (
+                status.limitUsd !== null &&
+                status.spentUsd + status.pendingUsd + estimatedCostUsd > status.limitUsd
+            ) {
+                throw new BudgetExceededError(period, status);
+            }
+        });
+    }
+
+    static getRollups(unit: 'day' | 'month', since: Date): UsageRollup[] {
+        const periodLength = unit === 'day' ? 10 : 7; // Prefix of the ISO timestamp
+        const rows = DatabaseService.getDatabase()
+            .prepare(
+                `SELECT substr(created_at, 1, ?) AS period,
+                    COUNT(*) AS calls,
+                    SUM(outcome != 'succeeded') AS failedCalls,
+                    SUM(CASE WHEN operation != 'video' THEN output_count ELSE 0 END) AS images,
+                    SUM(CASE WHEN operation = 'video' THEN output_count * duration_seconds ELSE 0 END)
+                        AS videoSeconds,
+                    SUM(estimated_cost_usd) AS estimatedCostUsd
+                FROM usage WHERE created_at >= ? GROUP BY period ORDER BY period DESC`
+            )
+            .all(periodLength, since.toISOString()) as UsageRollup[];
+
+        return rows.map((row) => ({
+            ...row,
+            estimatedCostUsd: this.roundUsd(row.estimatedCostUsd),
+        }));
+    }
+
+    static getModelBreakdown(since: Date): Array<{
+        model: string;
+        operation: UsageOperation;
+        calls: number;
+        estimatedCostUsd: number;
+    }> {
+        const rows = DatabaseService.getDatabase()
+            .prepare(
+                `SELECT model, operation, COUNT(*) AS calls, SUM(estimated_cost_usd) AS estimatedCostUsd
+                FROM usage WHERE created_at >= ? GROUP BY model, operation ORDER BY estimatedCostUsd DESC`
+            )
+            .all(since.toISOString()) as Array<{
+            model: string;
+            operation: UsageOperation;
+            calls: number;
+            estimatedCostUsd: number;
+        }>;
+
+        return rows.map((row) => ({
+            ...row,
+            estimatedCostUsd: this.roundUsd(row.estimatedCostUsd),
+        }));
+    }
+
+    private static roundUsd(amount: number): number {
+        return Math.round(amount * 10000) / 10000;
+    }
+}
+
+class EventService {
+    private static clients = new Map<Response, number>(); // Stream -> user id
+    private static nextEventId = 1;
+
+    static subscribe(res: Response, userId: number): void {
+        this.clients.set(res, userId);
+        res.on('close', () => this.clients.delete(res));
+    }
+
+    // Events only reach users with access to the generation. Generations that are not saved yet
+    // have no owner on record, so their events name the requesting user as the audience.
+    static publish(event: Omit<GenerationEvent, 'timestamp'>, audience?: number): void {
+        const payload: GenerationEvent = { ...event, timestamp: new Date().toISOString() };
+        const message = `id: ${this.nextEventId++}\ndata: ${JSON.stringify(payload)}\n\n`;
+        const recipients = new Set(AccessService.getAudience(event.generationId));
+        if (audience !== undefined) {
+            recipients.add(audience);
+        }
+
+        this.clients.forEach((userId, client) => {
+            if (recipients.has(userId)) {
+                client.write(message);
+            }
+        });
+    }
+
+    // Publishes 'saved' with the up-to-date gallery entry so other tabs can render it directly
+    static publishSaved(
+        generationId: number,
+        operation: GenerationEvent['operation'],
+        jobId?: string
+    ): void {
+        this.publish({
+            type: 'saved',
+            generationId,
+            operation,
+            jobId,
+            result: ResultService.getResult(generationId),
+        });
+    }
+
+    static publishGalleryUpdate(
+        generationId: number,
+        operation: GenerationEvent['operation'] = 'trash'
+    ): void {
+        this.publish({
+            type: 'gallery-updated',
+            generationId,
+            operation,
+            result: ResultService.getResult(generationId),
+        });
+    }
+
+    // Publishes 'safety-filtered' or 'failed' depending on the error
+    static publishError(
+        generationId: number,
+        operation: GenerationEvent['operation'],
+        error: unknown,
+        jobId?: string,
+        audience?: number
+    ): void {
+        this.publish(
+            {
+                type: error instanceof SafetyFilteredError ? 'safety-filtered' : 'failed',
+                generationId,
+                operation,
+                jobId,
+                message: error instanceof Error ? error.message : String(error),
+                code: error instanceof AppError ? error.code : 'INTERNAL_ERROR',
+            },
+            audience
+        );
+    }
+}
+
+class JobService {
+    private static toJob(row: JobRow): VideoJob {
+        return {
+            id: row.id,
+            generationId: row.generation_id,
+            status: row.status,
+            params: JSON.parse(row.params),
+            operationName: row.operation_name ?? undefined,
+            videoUrl: row.video_url ?? undefined,
+            error: row.error ?? undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+
+    static saveJob(job: VideoJob): void {
+        DatabaseService.getDatabase()
+            .prepare(
+                `INSERT OR REPLACE INTO jobs
+                    (id, generation_id, status, params, operation_name, video_url, error, created_at, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                job.id,
+                job.generationId,
+                job.status,
+                JSON.stringify(job.params),
+                job.operationName ?? null,
+                job.videoUrl ?? null,
+                job.error ?? null,
+                job.createdAt,
+                job.updatedAt
+            );
+    }
+
+    static createJob(generationId: number, params: VideoJobParams): VideoJob {
+        const now = new Date().toISOString();
+        const job: VideoJob = {
+            id: crypto.randomUUID(),
+            generationId,
+            status: 'queued',
+            params,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        this.saveJob(job);
+        return job;
+    }
+
+    static updateJob(id: string, changes: Partial<Omit<VideoJob, 'id'>>): VideoJob | undefined {
+        return DatabaseService.transaction(() => {
+            const existing = this.getJob(id);
+
+            if (!existing) {
+                return undefined;
+            }
+
+            const updated: VideoJob = {
+                ...existing,
+                ...changes,
+                updatedAt: new Date().toISOString(),
+            };
+            this.saveJob(updated);
+            return updated;
+        });
+    }
+
+    static getJob(id: string): VideoJob | undefined {
+        const row = DatabaseService.getDatabase()
+            .prepare('SELECT * FROM jobs WHERE id = ?')
+            .get(id) as JobRow | undefined;
+
+        return row ? this.toJob(row) : undefined;
+    }
+
+    static getPendingJobs(): VideoJob[] {
+        const rows = DatabaseService.getDatabase()
+            .prepare("SELECT * FROM jobs WHERE status IN ('queued', 'running') ORDER BY created_at")
+            .all() as JobRow[];
+
+        return rows.map((row) => this.toJob(row));
+    }
+}
+
+class VideoJobService {
+    // Runs a video job in the background; the job store records every step so it can be resumed
+    static run(job: VideoJob): void {
+        this.complete(job).catch(() => undefined); // Already recorded on the job
+    }
+
+    // Runs a video job to the end; a failure is recorded on the job, then rethrown
+    static async complete(
+        job: VideoJob,
+        onPollAttempt?: (attempt: number, maxAttempts: number) => void
+    ): Promise<void> {
+        try {
+            await this.execute(job, onPollAttempt);
+        } catch (error: unknown) {
+            const errorMessage =
+                error instanceof Error ? error.message : 'Failed to generate video';
+            console.error(`Error in video job ${job.id}:`, error);
+            JobService.updateJob(job.id, { status: 'failed', error: errorMessage });
+            this.recordUsage(job, UsageService.getOutcome(error));
+            EventService.publishError(job.generationId, 'video', error, job.id);
+            throw error;
+        }
+    }
+
+    // Picks up jobs left queued or running by a previous server process
+    static resumePendingJobs(): void {
+        const pendingJobs = JobService.getPendingJobs();
+
+        pendingJobs.forEach((job) => {
+            console.log(
+                `🔁 Resuming video job ${job.id} (${job.operationName ? 'polling' : 'starting'})`
+            );
+            this.run(job);
+        });
+    }
+
+    // The whole job counts as one Veo call, from queueing to the final poll
+    private static recordUsage(job: VideoJob, outcome: UsageOutcome, outputCount = 0): void {
+        const model = job.params.model ?? CONFIG.VEO_MODEL;
+
+        UsageService.record({
+            generationId: job.generationId,
+            model,
+            operation: 'video',
+            sampleCount: job.params.sampleCount ?? 1,
+            outputCount,
+            durationSeconds: job.params.duration ?? CONSTRAINTS.DEFAULT_VIDEO_DURATION,
+            generateAudio: job.params.generateAudio ?? VideoGenerationService.generatesAudio(model),
+            outcome,
+            latencyMs: Date.now() - Date.parse(job.createdAt),
+        });
+    }
+
+    private static async execute(
+        job: VideoJob,
+        onPollAttempt?: (attempt: number, maxAttempts: number) => void
+    ): Promise<void> {
+        let operationName = job.operationName;
+        // Jobs from before per-request models ran on the configured one
+        const model = job.params.model ?? CONFIG.VEO_MODEL;
+
+        if (!operationName) {
+            const { imagePath, lastFramePath, videoPath } = job.params;
+            const image = imagePath
+                ? VideoGenerationService.readFrame(imagePath)
+                : videoPath
+                  ? await MediaService.extractLastFrame(videoPath)
+                  : undefined;
+            const lastFrame = lastFramePath
+                ? VideoGenerationService.readFrame(lastFramePath)
+                : undefined;
+
+            EventService.publish({
+                type: 'request-sent',
+                generationId: job.generationId,
+                operation: 'video',
+                jobId: job.id,
+            });
+            operationName = await VideoGenerationService.startVideoGeneration(
+                job.params.prompt,
+                image,
+                job.params.aspectRatio,
+                job.params.duration,
+                model,
+                job.params.generateAudio,
+                {
+                    negativePrompt: job.params.negativePrompt,
+                    resolution: job.params.resolution,
+                    seed: job.params.seed,
+                    sampleCount: job.params.sampleCount,
+                },
+                lastFrame
+            );
+
+            // Persist the operation name before polling so a restart does not lose the operation
+            JobService.updateJob(job.id, { status: 'running', operationName });
+        }
+
+        const videos = await VideoGenerationService.pollVideoOperation(
+            operationName,
+            (attempt, maxAttempts) => {
+                EventService.publish({
+                    type: 'poll-attempt',
+                    generationId: job.generationId,
+                    operation: 'video',
+                    jobId: job.id,
+                    attempt,
+                    maxAttempts,
+                });
+                onPollAttempt?.(attempt, maxAttempts);
+            },
+            model
+        );
+        const { prompt, model: _model, imagePath, sourceVersionId, ...parameters } = job.params;
+        const takes = MetadataService.addTakes(
+            job.generationId,
+            {
+                prompt,
+                model,
+                parameters,
+                sourceVersionId: sourceVersionId ?? null,
+                sourceImage: imagePath ?? null,
+                jobId: job.id,
+            },
+            videos.length,
+            (takeNumber, index) =>
+                VideoStorageService.saveVideo(videos[index], job.generationId, takeNumber)
+        );
+        this.recordUsage(job, 'succeeded', takes.length);
+
+        JobService.updateJob(job.id, { status: 'succeeded', videoUrl: takes[0].url });
+        EventService.publishSaved(job.generationId, 'video', job.id);
+    }
+}
+
+class BatchService {
+    private static workers = new Map<string, number>(); // Batch id -> workers running it
+
+    // Explicit hints win (csv, jsonl, json, ndjson); otherwise a file starting with { is JSONL
+    static detectFormat(content: string, hint = ''): BatchFormat {
+        if (/csv/i.test(hint)) {
+            return 'csv';
+        }
+        if (/json/i.test(hint)) {
+            return 'jsonl';
+        }
+        return content.trimStart().startsWith('{') ? 'jsonl' : 'csv';
+    }
+
+    // Parses and validates every row up front so a bad file is rejected before anything runs
+    static parseRows(
+        content: string,
+        format: BatchFormat
+    ): Array<{ line: number; input: BatchRowInput }> {
+        const problems: string[] = [];
+        const rows: Array<{ line: number; input: BatchRowInput }> = [];
+        let records: Array<{ line: number; fields: Record<string, unknown> }>;
+
+        try {
+            records = format === 'csv' ? this.readCsv(content) : this.readJsonl(content, problems);
+        } catch (error) {
+            throw new InvalidBatchError([error instanceof Error ? error.message : String(error)]);
+        }
+
+        if (records.length === 0 && problems.length === 0) {
+            throw new InvalidBatchError(['The batch file has no rows']);
+        }
+        if (records.length > CONSTRAINTS.MAX_BATCH_ROWS) {
+            throw new InvalidBatchError([
+                `A batch can have at most ${CONSTRAINTS.MAX_BATCH_ROWS} rows (got ${records.length})`,
+            ]);
+        }
+
+        records.forEach(({ line, fields }) => {
+            try {
+                rows.push({ line, input: ValidationUtils.validateBatchRow(fields) });
+            } catch (error) {
+                problems.push(`Line ${line}: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+
+        if (problems.length > 0) {
+            throw new InvalidBatchError(problems);
+        }
+
+        return rows;
+    }
+
+    // Upper bound for the whole batch, checked against the budget before it starts
+    static estimateCost(rows: BatchRowInput[]): number {
+        return rows.reduce(
+            (total, row) =>
+                total +
+                UsageService.estimateCost(
+                    ImageGenerationService.getGenerateModel(false),
+                    row.sampleCount
+                ) +
+                (row.editPrompt ? UsageService.estimateCost(CONFIG.IMAGEN_EDIT_MODEL, 1) : 0) +
+                (row.videoPrompt ? UsageService.estimateVideoCost() : 0),
+            0
+        );
+    }
+
+    static createBatch(
+        ownerId: number,
+        name: string,
+        rows: Array<{ line: number; input: BatchRowInput }>
+    ): Batch {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        const database = DatabaseService.getDatabase();
+
+        DatabaseService.transaction(() => {
+            database
+                .prepare('INSERT INTO batches (id, owner_id, name, created_at) VALUES (?, ?, ?, ?)')
+                .run(id, ownerId, name, now);
+            const insertRow = database.prepare(
+                `INSERT INTO batch_rows (batch_id, line, input, status, updated_at)
+                VALUES (?, ?, ?, 'pending', ?)`
+            );
+            rows.forEach((row) => insertRow.run(id, row.line, JSON.stringify(row.input), now));
+        });
+
+        return this.getBatch(id, ownerId)!;
+    }
+
+    static listBatches(ownerId: number): Batch[] {
+        const records = DatabaseService.getDatabase()
+            .prepare('SELECT * FROM batches WHERE owner_id = ? ORDER BY created_at DESC')
+            .all(ownerId) as BatchRecord[];
+
+        return records.map((record) => this.toBatch(record));
+    }
+
+    // Only the owner sees a batch; rows are included
+    static getBatch(id: string, ownerId: number): Batch | undefined {
+        const record = DatabaseService.getDatabase()
+            .prepare('SELECT * FROM batches WHERE id = ? AND owner_id = ?')
+            .get(id, ownerId) as BatchRecord | undefined;
+
+        return record ? { ...this.toBatch(record), rows: this.getRows(id) } : undefined;
+    }
+
+    // Each row with the images and video it produced so far
+    static getReport(batch: Batch): BatchReportRow[] {
+        return (batch.rows ?? []).map((row) => {
+            const result =
+                row.generationId !== undefined
+                    ? ResultService.getResult(row.generationId)
+                    : undefined;
+            const job = row.videoJobId ? JobService.getJob(row.videoJobId) : undefined;
+
+            return {
+                ...row,
+                images: result?.resultImages ?? [],
+                videoStatus: job?.status,
+                videoUrl: job?.videoUrl,
+            };
+        });
+    }
+
+    static toCsv(report: BatchReportRow[]): string {
+        return CsvUtils.stringify([
+            [
+                'line',
+                'status',
+                'generationId',
+                'editVersionId',
+                'videoJobId',
+                'videoStatus',
+                'videoUrl',
+                'images',
+                'error',
+                'prompt',
+            ],
+            ...report.map((row) => [
+                row.line,
+                row.status,
+                row.generationId,
+                row.editVersionId,
+                row.videoJobId,
+                row.videoStatus,
+                row.videoUrl,
+                row.images.join(' '),
+                row.error,
+                row.input.prompt,
+            ]),
+        ]);
+    }
+
+    // Puts failed rows back in the queue; steps that already succeeded are not repeated, while a
+    // failed (or missing) video job is forgotten so the row starts a new one
+    static retryFailed(id: string): number {
+        const { changes } = DatabaseService.getDatabase()
+            .prepare(
+                `UPDATE batch_rows SET status = 'pending', error = NULL, updated_at = ?,
+                    video_job_id = (
+                        SELECT id FROM jobs WHERE jobs.id = batch_rows.video_job_id
+                        AND jobs.status != 'failed'
+                    )
+                WHERE batch_id = ? AND status = 'failed'`
+            )
+            .run(new Date().toISOString(), id);
+
+        if (changes > 0) {
+            this.run(id);
+        }
+        return changes;
+    }
+
+    // Starts workers until BATCH_CONCURRENCY of them are claiming rows of this batch
+    static run(id: string): void {
+        for (let i = this.workers.get(id) ?? 0; i < CONFIG.BATCH_CONCURRENCY; i++) {
+            this.workers.set(id, (this.workers.get(id) ?? 0) + 1);
+            this.work(id).finally(() => {
+                const remaining = this.workers.get(id)! - 1;
+                if (remaining > 0) {
+                    this.workers.set(id, remaining);
+                } else {
+                    this.workers.delete(id);
+                }
+            });
+        }
+    }
+
+    // Rows left running by a previous server process start over from their last finished step
+    static resumePendingBatches(): void {
+        const database = DatabaseService.getDatabase();
+        database.prepare("UPDATE batch_rows SET status = 'pending' WHERE status = 'running'").run();
+        const batchIds = database
+            .prepare("SELECT DISTINCT batch_id FROM batch_rows WHERE status = 'pending'")
+            .pluck()
+            .all() as string[];
+
+        batchIds.forEach((id) => {
+            console.log(`🔁 Resuming batch ${id}`);
+            this.run(id);
+        });
+    }
+
+    // Blank lines and # comments are skipped; unparsable lines are reported, not fatal
+    private static readJsonl(
+        content: string,
+        problems: string[]
+    ): Array<{ line: number; fields: Record<string, unknown> }> {
+        const records: Array<{ line: number; fields: Record<string, unknown> }> = [];
+
+        content.split(/\r?\n/).forEach((text, index) => {
+            const line = index + 1;
+            const trimmed = text.trim();
+            if (!trimmed || trimmed.startsWith('#')) {
+                return;
+            }
 
-        const requestBody = {
-            instances: [
-                {
-                    referenceImages: [
-                        {
-                            referenceType: 'REFERENCE_TYPE_RAW',
-                            referenceId: 1,
-                            referenceImage: {
-                                bytesBase64Encoded: imageBase64,
-                            },
-                        },
-                    ],
-                    prompt: editPrompt,
-                },
-            ],
-            parameters: {
-                sampleCount: ValidationUtils.validateSampleCount(sampleCount),
-                safetySetting,
-                personGeneration,
-            },
-        };
+            try {
+                const fields = JSON.parse(trimmed);
+                if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+                    throw new Error('expected a JSON object');
+                }
+                records.push({ line, fields });
+            } catch (error) {
+                problems.push(`Line ${line}: ${error instanceof Error ? error.message : error}`);
+            }
+        });
 
-        const responseData = await this.makeImagenApiRequest(apiEndpoint, requestBody);
+        return records;
+    }
 
-        return responseData.predictions!.map((pred) => ({
-            mimeType: pred.mimeType || 'image/png',
-            bytesBase64Encoded: pred.bytesBase64Encoded || '',
-            prompt: pred.prompt,
+    // The header row names the columns; matching is case-insensitive and unknown columns fail
+    private static readCsv(
+        content: string
+    ): Array<{ line: number; fields: Record<string, unknown> }> {
+        const [header, ...records] = CsvUtils.parse(content);
+        if (!header) {
+            return [];
+        }
+
+        const fieldNames = [
+            'prompt',
+            'sampleCount',
+            'aspectRatio',
+            'safetySetting',
+            'personGeneration',
+            'editPrompt',
+            'videoPrompt',
+        ];
+        const columns = header.cells.map((cell) => {
+            const name = fieldNames.find(
+                (field) => field.toLowerCase() === cell.trim().toLowerCase()
+            );
+            if (!name) {
+                throw new Error(
+                    `Unknown column "${cell.trim()}"; expected: ${fieldNames.join(', ')}`
+                );
+            }
+            return name;
+        });
+        if (!columns.includes('prompt')) {
+            throw new Error('The header row needs a prompt column');
+        }
+
+        return records.map(({ line, cells }) => ({
+            line,
+            fields: Object.fromEntries(columns.map((column, index) => [column, cells[index]])),
         }));
     }
-}
 
-class VideoGenerationService extends BaseAPIService {
-    private static buildVeoApiEndpoint(): string {
-        return super.buildApiEndpoint(CONFIG.VEO_MODEL, 'predictLongRunning');
+    private static toBatch(record: BatchRecord): Batch {
+        const counts: Record<BatchRowStatus, number> = {
+            pending: 0,
+            running: 0,
+            succeeded: 0,
+            failed: 0,
+        };
+        const rows = DatabaseService.getDatabase()
+            .prepare(
+                'SELECT status, COUNT(*) AS count FROM batch_rows WHERE batch_id = ? GROUP BY status'
+            )
+            .all(record.id) as Array<{ status: BatchRowStatus; count: number }>;
+        rows.forEach(({ status, count }) => (counts[status] = count));
+
+        return {
+            id: record.id,
+            name: record.name,
+            status: counts.pending + counts.running > 0 ? 'running' : 'completed',
+            counts,
+            createdAt: record.created_at,
+        };
+    }
+
+    private static toRow(record: BatchRowRecord): BatchRow {
+        return {
+            line: record.line,
+            input: JSON.parse(record.input),
+            status: record.status,
+            generationId: record.generation_id ?? undefined,
+            editVersionId: record.edit_version_id ?? undefined,
+            videoJobId: record.video_job_id ?? undefined,
+            error: record.error ?? undefined,
+            updatedAt: record.updated_at,
+        };
     }
 
-    private static buildFetchOperationEndpoint(): string {
-        return super.buildApiEndpoint(CONFIG.VEO_MODEL, 'fetchPredictOperation');
+    private static getRows(id: string): BatchRow[] {
+        const records = DatabaseService.getDatabase()
+            .prepare('SELECT * FROM batch_rows WHERE batch_id = ? ORDER BY line')
+            .all(id) as BatchRowRecord[];
+
+        return records.map((record) => this.toRow(record));
     }
 
-    static async generateVideo(
-        imageBase64: string,
-        prompt: string,
-        aspectRatio: string = '16:9',
-        duration: number = 8
-    ): Promise<string> {
-        const apiEndpoint = this.buildVeoApiEndpoint();
+    private static updateRow(
+        id: string,
+        line: number,
+        changes: Partial<
+            Pick<
+                BatchRowRecord,
+                'status' | 'generation_id' | 'edit_version_id' | 'video_job_id' | 'error'
+            >
+        >
+    ): void {
+        const columns = Object.keys(changes);
+        DatabaseService.getDatabase()
+            .prepare(
+                `UPDATE batch_rows SET ${columns.map((column) => `${column} = ?`).join(', ')}, updated_at = ?
+                WHERE batch_id = ? AND line = ?`
+            )
+            .run(...Object.values(changes), new Date().toISOString(), id, line);
+    }
 
-        // Determine if using Veo 3 model (requires generateAudio)
-        const isVeo3 = CONFIG.VEO_MODEL.includes('veo-3');
+    // Marks the next pending row as running; synchronous, so two workers never get the same row
+    private static claimNextRow(id: string): BatchRow | undefined {
+        return DatabaseService.transaction(() => {
+            const record = DatabaseService.getDatabase()
+                .prepare(
+                    "SELECT * FROM batch_rows WHERE batch_id = ? AND status = 'pending' ORDER BY line LIMIT 1"
+                )
+                .get(id) as BatchRowRecord | undefined;
+
+            if (!record) {
+                return undefined;
+            }
+            this.updateRow(id, record.line, { status: 'running' });
+            return this.toRow(record);
+        });
+    }
 
-        const requestBody: any = {
-            instances: [
-                {
-                    prompt: prompt,
-                    image: {
-                        bytesBase64Encoded: imageBase64,
-                        mimeType: 'image/png', // Default, could be detected from image
-                    },
-                },
-            ],
-            parameters: {
-                aspectRatio: aspectRatio,
-                durationSeconds: duration,
-                sampleCount: 1,
-            },
-        };
+    private static async work(id: string): Promise<void> {
+        const ownerId = DatabaseService.getDatabase()
+            .prepare('SELECT owner_id FROM batches WHERE id = ?')
+            .pluck()
+            .get(id) as number | undefined;
 
-        // Veo 3 models require generateAudio parameter
-        if (isVeo3) {
-            requestBody.parameters.generateAudio = true; // Enable audio generation
+        if (ownerId === undefined) {
+            return;
         }
 
-        // Start the long-running operation
-        interface OperationResponse {
-            name?: string;
+        for (let row = this.claimNextRow(id); row; row = this.claimNextRow(id)) {
+            try {
+                await this.processRow(id, ownerId, row);
+                this.updateRow(id, row.line, { status: 'succeeded', error: null });
+            } catch (error) {
+                console.error(`Error in batch ${id}, line ${row.line}:`, error);
+                this.updateRow(id, row.line, {
+                    status: 'failed',
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
         }
-        const operationResponse = await super.makeApiRequest<OperationResponse>(
-            apiEndpoint,
-            requestBody,
-            'Veo'
-        );
-        const operationName = operationResponse.name;
+    }
 
-        if (!operationName) {
-            throw new Error('Failed to start video generation operation');
+    // Each step stores its result on the row together with its output, so a resumed row
+    // continues with the first step that has not finished yet
+    private static async processRow(id: string, ownerId: number, row: BatchRow): Promise<void> {
+        const { input } = row;
+        const generationId = row.generationId ?? (await this.generate(id, ownerId, row));
+
+        if (input.editPrompt && row.editVersionId === undefined) {
+            await this.edit(id, row.line, generationId, input);
         }
 
-        // Poll for completion
-        const fetchEndpoint = this.buildFetchOperationEndpoint();
-        const maxAttempts = 120; // 10 minutes max (5 seconds * 120)
-        const pollInterval = 5000; // 5 seconds
+        if (input.videoPrompt) {
+            const jobId = row.videoJobId ?? this.startVideo(id, row.line, generationId, input);
+            await this.waitForVideo(jobId);
+        }
+    }
 
-        interface OperationStatus {
-            done?: boolean;
-            error?: { code?: number; message?: string; details?: unknown[] };
-            response?: {
-                videos?: Array<{ bytesBase64Encoded?: string; gcsUri?: string }>;
-                raiMediaFilteredCount?: number;
-            };
+    private static async generate(id: string, ownerId: number, row: BatchRow): Promise<number> {
+        const { input } = row;
+
+        UsageService.assertWithinBudget(
+            UsageService.estimateCost(
+                ImageGenerationService.getGenerateModel(false),
+                input.sampleCount
+            )
+        );
+
+        const generationId = MetadataService.allocateGenerationId();
+
+        try {
+            EventService.publish({ type: 'queued', generationId, operation: 'generate' }, ownerId);
+            EventService.publish(
+                { type: 'request-sent', generationId, operation: 'generate' },
+                ownerId
+            );
+            const predictions = await ImageGenerationService.generateImage(
+                input.prompt,
+                input.sampleCount,
+                input.aspectRatio,
+                input.safetySetting,
+                input.personGeneration,
+                [],
+                {},
+                generationId
+            );
+
+            DatabaseService.transaction(() => {
+                MetadataService.createGeneration(generationId, ownerId, {
+                    operation: 'generate',
+                    prompt: input.prompt,
+                    enhancedPrompt: predictions[0]?.prompt,
+                    model: ImageGenerationService.getGenerateModel(false),
+                    parameters: {
+                        sampleCount: input.sampleCount,
+                        aspectRatio: input.aspectRatio,
+                        safetySetting: input.safetySetting,
+                        personGeneration: input.personGeneration,
+                    },
+                    images: ImageStorageService.saveImages(predictions, generationId),
+                });
+                this.updateRow(id, row.line, { generation_id: generationId });
+            });
+        } catch (error) {
+            EventService.publishError(generationId, 'generate', error, undefined, ownerId);
+            throw error;
         }
 
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-            await new Promise((resolve) => setTimeout(resolve, pollInterval));
+        EventService.publishSaved(generationId, 'generate');
+        return generationId;
+    }
+
+    // Free-form edit of the first image of the current version
+    private static async edit(
+        id: string,
+        line: number,
+        generationId: number,
+        input: BatchRowInput
+    ): Promise<void> {
+        const parentVersion = this.getCurrentVersion(generationId);
+
+        UsageService.assertWithinBudget(UsageService.estimateCost(CONFIG.IMAGEN_EDIT_MODEL, 1));
 
-            const operationStatus = await super.makeApiRequest<OperationStatus>(
-                fetchEndpoint,
-                { operationName: operationName },
-                'Veo'
+        try {
+            EventService.publish({ type: 'queued', generationId, operation: 'edit' });
+            EventService.publish({ type: 'request-sent', generationId, operation: 'edit' });
+            const imageBuffer = fs.readFileSync(FileUtils.outputUrlToPath(parentVersion.images[0]));
+            const predictions = await ImageGenerationService.editImage(
+                imageBuffer.toString('base64'),
+                input.editPrompt!,
+                1,
+                input.safetySetting,
+                input.personGeneration,
+                {},
+                generationId
             );
 
-            if (operationStatus.done) {
-                // Check for errors first
-                if (operationStatus.error) {
-                    throw new Error(
-                        `Video generation failed: ${JSON.stringify(operationStatus.error)}`
-                    );
-                }
+            DatabaseService.transaction(() => {
+                const version = MetadataService.addVersion(
+                    generationId,
+                    {
+                        parentId: parentVersion.id,
+                        operation: 'edit',
+                        prompt: input.editPrompt!,
+                        enhancedPrompt: predictions[0]?.prompt,
+                        model: CONFIG.IMAGEN_EDIT_MODEL,
+                        parameters: {
+                            sampleCount: 1,
+                            safetySetting: input.safetySetting,
+                            personGeneration: input.personGeneration,
+                        },
+                    },
+                    (versionId) =>
+                        ImageStorageService.saveImages(predictions, generationId, versionId)
+                );
+                this.updateRow(id, line, { edit_version_id: version.id });
+            });
+        } catch (error) {
+            EventService.publishError(generationId, 'edit', error);
+            throw error;
+        }
 
-                if (operationStatus.response) {
-                    // Check if response has videos array
-                    if (
-                        operationStatus.response.videos &&
-                        operationStatus.response.videos.length > 0
-                    ) {
-                        const video = operationStatus.response.videos[0];
-                        if (video.bytesBase64Encoded) {
-                            return video.bytesBase64Encoded;
-                        }
-                        if (video.gcsUri) {
-                            throw new Error(
-                                'Video stored in GCS. Please configure storageUri or download from GCS.'
-                            );
-                        }
-                        throw new Error(
-                            'Video object found but missing bytesBase64Encoded or gcsUri'
-                        );
-                    }
+        EventService.publishSaved(generationId, 'edit');
+    }
 
-                    // Check for raiMediaFilteredCount (videos filtered by safety)
-                    if (
-                        operationStatus.response.raiMediaFilteredCount &&
-                        operationStatus.response.raiMediaFilteredCount > 0
-                    ) {
-                        throw new Error(
-                            `Video generation filtered by safety policies. Filtered count: ${operationStatus.response.raiMediaFilteredCount}`
-                        );
-                    }
-                }
+    // Queues a video job from the first image of the current version and returns its id
+    private static startVideo(
+        id: string,
+        line: number,
+        generationId: number,
+        input: BatchRowInput
+    ): string {
+        const version = this.getCurrentVersion(generationId);
+
+        UsageService.assertWithinBudget(UsageService.estimateVideoCost());
+
+        // Veo only renders landscape or portrait video
+        const job = DatabaseService.transaction(() => {
+            const job = JobService.createJob(generationId, {
+                imagePath: version.images[0],
+                sourceVersionId: version.id,
+                prompt: input.videoPrompt!,
+                aspectRatio:
+                    input.aspectRatio === '9:16' ? '9:16' : CONSTRAINTS.DEFAULT_VIDEO_ASPECT_RATIO,
+                duration: CONSTRAINTS.DEFAULT_VIDEO_DURATION,
+            });
+            this.updateRow(id, line, { video_job_id: job.id });
+            return job;
+        });
+        EventService.publish({ type: 'queued', generationId, operation: 'video', jobId: job.id });
+        VideoJobService.run(job);
 
-                throw new Error('Video generation completed but no video data found.');
+        return job.id;
+    }
+
+    // Video jobs run on their own (and resume on their own), so the row just follows the job
+    private static async waitForVideo(jobId: string): Promise<void> {
+        for (;;) {
+            const job = JobService.getJob(jobId);
+
+            if (!job) {
+                throw new Error(`Video job ${jobId} no longer exists`);
+            }
+            if (job.status === 'failed') {
+                throw new Error(job.error || 'Video generation failed');
             }
+            if (job.status === 'succeeded') {
+                return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, CONFIG.VIDEO_POLL_INTERVAL_MS));
         }
+    }
+
+    private static getCurrentVersion(generationId: number): ImageVersion {
+        const metadata = MetadataService.getMetadata(generationId);
+        const version = metadata?.versions?.find(
+            (version) => version.id === metadata.currentVersionId
+        );
 
-        throw new Error('Video generation timed out');
+        if (!version || version.images.length === 0) {
+            throw new Error(`Generation ${generationId} has no image to continue from`);
+        }
+        return version;
     }
 }
 
-class MetadataService {
-    private static writeMetadataToFile(metadata: Map<number, ImageMetadata>): void {
-        const metadataArray = Array.from(metadata.entries()).map(([id, data]) => ({
-            id,
-            prompts: data.prompts,
-            enhancedPrompt: data.enhancedPrompt,
-            videoPrompts: data.videoPrompts || [],
-        }));
+// ============================================================================
+// Request Handlers
+// ============================================================================
 
-        FileUtils.ensureDirectoryExists(PATHS.OUTPUTS);
-        fs.writeFileSync(PATHS.METADATA, JSON.stringify(metadataArray, null, 2), 'utf-8');
+class RequestHandlers {
+    private static uploadMiddleware = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: CONSTRAINTS.MAX_UPLOAD_BYTES, files: 1 },
+        fileFilter: (_req, file, callback) => {
+            if (!SUPPORTED_IMAGE_MIME_TYPES.includes(file.mimetype)) {
+                callback(
+                    new UploadTypeError(
+                        `Unsupported file type "${file.mimetype}". Use PNG, JPEG or WebP.`
+                    )
+                );
+                return;
+            }
+            callback(null, true);
+        },
+    }).single('image');
+
+    // Every failed request ends here: { error, code, ...details } with the error's status.
+    // Unexpected errors are logged and sent as a bare 500 so internals never reach the client.
+    static handleError(error: unknown, req: Request, res: Response, _next: NextFunction): void {
+        let statusCode: number;
+        let code: ErrorCode;
+        let message: string;
+        let details: Record<string, unknown> | undefined;
+
+        if (error instanceof AppError) {
+            ({ statusCode, code, message, details } = error);
+            const retryAfterMs = (error as { retryAfterMs?: number }).retryAfterMs;
+            if (retryAfterMs !== undefined) {
+                res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+            }
+        } else if (error instanceof multer.MulterError) {
+            const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+            statusCode = tooLarge ? 413 : 400;
+            code = tooLarge ? 'PAYLOAD_TOO_LARGE' : 'VALIDATION_FAILED';
+            message = tooLarge ? 'Image is larger than the 10 MB upload limit' : error.message;
+        } else if (RequestHandlers.isBodyParserError(error)) {
+            const tooLarge = error.type === 'entity.too.large';
+            statusCode = tooLarge ? 413 : 400;
+            code = tooLarge ? 'PAYLOAD_TOO_LARGE' : 'VALIDATION_FAILED';
+            message = tooLarge ? 'The request body is too large' : 'The request body is not valid';
+        } else {
+            statusCode = 500;
+            code = 'INTERNAL_ERROR';
+            message = 'Something went wrong on the server';
+        }
+
+        // Upstream errors are logged with the response body they carry
+        if (statusCode >= 500 || error instanceof UpstreamError) {
+            console.error(`Error handling ${req.method} ${req.path}:`, error);
+        }
+
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+        res.status(statusCode).json({ error: message, code, ...details });
+    }
+
+    static handleUnknownRoute(req: Request): void {
+        throw new NotFoundError(`No API route for ${req.method} ${req.baseUrl}${req.path}`);
     }
 
-    static loadMetadata(): Map<number, ImageMetadata> {
-        const metadata = new Map<number, ImageMetadata>();
+    private static isBodyParserError(error: unknown): error is { type: string; status: number } {
+        return (
+            typeof error === 'object' &&
+            error !== null &&
+            typeof (error as { type?: unknown }).type === 'string' &&
+            typeof (error as { status?: unknown }).status === 'number' &&
+            (error as { status: number }).status < 500
+        );
+    }
+
+    // API keys come in Authorization: Bearer or X-API-Key, browsers use the session cookie
+    private static getRequestUser(req: Request): User | undefined {
+        const authorization = req.header('authorization');
+        const apiKey = authorization?.startsWith('Bearer ')
+            ? authorization.slice('Bearer '.length).trim()
+            : req.header('x-api-key');
+        if (apiKey) {
+            return UserService.getApiKeyUser(apiKey);
+        }
+
+        const token = RequestHandlers.getSessionToken(req);
+        return token ? UserService.getSessionUser(token) : undefined;
+    }
 
-        if (!fs.existsSync(PATHS.METADATA)) {
-            return metadata;
+    private static getSessionToken(req: Request): string | undefined {
+        const cookie = req
+            .header('cookie')
+            ?.split(';')
+            .map((part) => part.trim())
+            .find((part) => part.startsWith(`${SESSION_COOKIE}=`));
+        if (!cookie) {
+            return undefined;
         }
 
+        // A value that is not valid percent-encoding cannot be one of our tokens
         try {
-            const data = fs.readFileSync(PATHS.METADATA, 'utf-8');
-            const json = JSON.parse(data);
-
-            if (Array.isArray(json)) {
-                json.forEach(
-                    (item: {
-                        id: number;
-                        prompt?: string;
-                        prompts?: string[];
-                        enhancedPrompt?: string;
-                        videoPrompts?: string[];
-                    }) => {
-                        if (item.id) {
-                            // Handle both old format (single prompt) and new format (prompts array)
-                            const prompts = item.prompts || (item.prompt ? [item.prompt] : []);
-                            if (
-                                prompts.length > 0 ||
-                                (item.videoPrompts && item.videoPrompts.length > 0)
-                            ) {
-                                metadata.set(item.id, {
-                                    prompts,
-                                    enhancedPrompt: item.enhancedPrompt,
-                                    videoPrompts: item.videoPrompts || [],
-                                });
-                            }
-                        }
-                    }
-                );
-            }
-        } catch (error) {
-            console.error('Error loading metadata:', error);
+            return decodeURIComponent(cookie.slice(SESSION_COOKIE.length + 1));
+        } catch {
+            return undefined;
         }
+    }
 
-        return metadata;
+    private static startSession(req: Request, res: Response, user: User): void {
+        res.cookie(SESSION_COOKIE, UserService.createSession(user.id), {
+            httpOnly: true,
+            sameSite: 'lax',
+            secure: req.secure,
+            maxAge: CONFIG.SESSION_TTL_DAYS * 24 * 60 * 60 * 1000,
+            path: '/',
+        });
     }
 
-    static saveMetadata(id: number, prompt: string, enhancedPrompt?: string): void {
-        const metadata = this.loadMetadata();
-        const existing = metadata.get(id);
+    static requireUser(req: Request, _res: Response, next: NextFunction): void {
+        const user = RequestHandlers.getRequestUser(req);
 
-        // If metadata exists, append the new prompt; otherwise create new array
-        const prompts = existing?.prompts || [];
-        if (!prompts.includes(prompt)) {
-            prompts.push(prompt);
+        if (!user) {
+            throw new AuthenticationError('Sign in or provide an API key');
         }
 
-        metadata.set(id, { prompts, enhancedPrompt });
-        this.writeMetadataToFile(metadata);
+        req.user = user;
+        next();
     }
 
-    static addEditPrompt(id: number, editPrompt: string): void {
-        const metadata = this.loadMetadata();
-        const existing = metadata.get(id);
-        const prompts = existing?.prompts || [];
-        const trimmedEditPrompt = editPrompt.trim();
+    // Files are only served to users with access to the generation they belong to
+    static requireOutputAccess(req: Request, _res: Response, next: NextFunction): void {
+        const user = RequestHandlers.getRequestUser(req);
+
+        if (!user) {
+            throw new AuthenticationError('Sign in or provide an API key');
+        }
+
+        let url: string;
+        try {
+            url = `/outputs${decodeURIComponent(req.path)}`;
+        } catch {
+            throw new ValidationError('Invalid file path');
+        }
 
-        if (trimmedEditPrompt) {
-            prompts.push(trimmedEditPrompt);
+        if (!AccessService.canViewFile(user.id, url)) {
+            throw new NotFoundError('File not found');
         }
 
-        metadata.set(id, {
-            prompts,
-            enhancedPrompt: existing?.enhancedPrompt,
+        next();
+    }
+
+    static async handleGetSession(req: Request, res: Response): Promise<void> {
+        const hasUsers = UserService.hasUsers();
+
+        res.json({
+            user: RequestHandlers.getRequestUser(req) ?? null,
+            setupRequired: !hasUsers,
+            signupOpen: CONFIG.ALLOW_SIGNUP || !hasUsers,
         });
+    }
+
+    // Open for the first account and when ALLOW_SIGNUP is set; otherwise admins create accounts
+    static async handleRegister(req: Request, res: Response): Promise<void> {
+        const { username, password } = req.body ?? {};
+
+        if (typeof username !== 'string' || typeof password !== 'string') {
+            throw new ValidationError('username and password are required');
+        }
+
+        const currentUser = RequestHandlers.getRequestUser(req);
+        if (UserService.hasUsers() && !CONFIG.ALLOW_SIGNUP && !currentUser?.isAdmin) {
+            throw new ForbiddenError('Sign-up is closed. Ask an admin for an account.');
+        }
 
-        this.writeMetadataToFile(metadata);
+        const user = await UserService.createUser(username.trim(), password);
+        // Admins creating an account for a teammate stay signed in as themselves
+        if (!currentUser) {
+            RequestHandlers.startSession(req, res, user);
+        }
+
+        res.status(201).json({ user });
     }
 
-    static addVideoPrompt(id: number, videoPrompt: string): void {
-        const metadata = this.loadMetadata();
-        const existing = metadata.get(id);
-        const videoPrompts = existing?.videoPrompts || [];
-        const trimmedPrompt = videoPrompt.trim();
+    static async handleLogin(req: Request, res: Response): Promise<void> {
+        const { username, password } = req.body ?? {};
+        const user =
+            typeof username === 'string' && typeof password === 'string'
+                ? await UserService.verifyPassword(username.trim(), password)
+                : undefined;
 
-        if (trimmedPrompt) {
-            videoPrompts.push(trimmedPrompt);
+        if (!user) {
+            throw new AuthenticationError('Invalid username or password');
         }
 
-        metadata.set(id, {
-            prompts: existing?.prompts || [],
-            enhancedPrompt: existing?.enhancedPrompt,
-            videoPrompts,
-        });
+        RequestHandlers.startSession(req, res, user);
+        res.json({ user });
+    }
 
-        this.writeMetadataToFile(metadata);
+    static async handleLogout(req: Request, res: Response): Promise<void> {
+        const token = RequestHandlers.getSessionToken(req);
+        if (token) {
+            UserService.deleteSession(token);
+        }
+
+        res.clearCookie(SESSION_COOKIE, { path: '/' });
+        res.json({ success: true });
     }
 
-    static getMetadata(id: number): ImageMetadata | undefined {
-        return this.loadMetadata().get(id);
+    static async handleGetApiKeys(req: Request, res: Response): Promise<void> {
+        res.json({ keys: UserService.listApiKeys(req.user!.id) });
     }
-}
 
-class ImageStorageService {
-    static saveImage(
-        imageData: string,
-        mimeType: string,
-        generationId: number,
-        index?: number
-    ): string {
-        const fileExtension = FileUtils.getFileExtension(mimeType);
-        const filename =
-            index !== undefined
-                ? `result-${generationId}-${index}.${fileExtension}`
-                : `result-${generationId}.${fileExtension}`;
-        const outputPath = path.join(PATHS.OUTPUTS, filename);
+    static async handleCreateApiKey(req: Request, res: Response): Promise<void> {
+        const name =
+            typeof req.body?.name === 'string' && req.body.name.trim()
+                ? req.body.name.trim().slice(0, 100)
+                : 'API key';
 
-        const imageBuffer = Buffer.from(imageData, 'base64');
-        fs.writeFileSync(outputPath, imageBuffer);
+        res.status(201).json(UserService.createApiKey(req.user!.id, name));
+    }
 
-        return `/outputs/${filename}`;
+    static async handleDeleteApiKey(req: Request, res: Response): Promise<void> {
+        if (!UserService.deleteApiKey(req.user!.id, Number(req.params.id))) {
+            throw new NotFoundError('API key not found');
+        }
+
+        res.json({ success: true });
     }
 
-    static saveImages(predictions: PredictionResponse[], generationId: number): string[] {
-        return predictions.map((prediction, index) =>
-            this.saveImage(
-                prediction.bytesBase64Encoded,
-                prediction.mimeType,
-                generationId,
-                predictions.length > 1 ? index : undefined
-            )
-        );
+    // Teammates to share with
+    static async handleGetUsers(_req: Request, res: Response): Promise<void> {
+        res.json({
+            users: UserService.listUsers().map(({ id, username }) => ({ id, username })),
+        });
     }
-}
 
-class ResultService {
-    static getAllResults(): ImageGenerationResult[] {
-        const results: ImageGenerationResult[] = [];
+    // 404 unless the user can see the generation, 403 if they must own it but it is only shared
+    private static checkAccess(req: Request, generationId: number, requireOwner = false): void {
+        const access = AccessService.getAccess(req.user!.id, generationId);
 
-        if (!fs.existsSync(PATHS.OUTPUTS)) {
-            return results;
+        if (!access) {
+            throw new NotFoundError('Generation not found');
         }
+        if (requireOwner && access !== 'owner') {
+            throw new ForbiddenError('Only the owner can change this generation');
+        }
+    }
 
-        const metadata = MetadataService.loadMetadata();
-        const resultFiles = fs
-            .readdirSync(PATHS.OUTPUTS)
-            .filter((file) => file.startsWith('result-') && !file.endsWith('.json'))
-            .sort()
-            .reverse();
+    // The image a request refers to, owned by the user. The deprecated imagePath is looked up
+    // among the tracked assets, so it can only name a file the gallery wrote itself.
+    private static resolveImage(
+        req: Request,
+        res: Response,
+        reference: ImageReference,
+        requireOwner = true
+    ): { generationId: number; url: string; versionId: number | null } {
+        let generationId: number | undefined;
+        let asset: GenerationAsset | undefined;
+
+        if ('imagePath' in reference) {
+            res.setHeader('Deprecation', 'true');
+            const found = MetadataService.findAssetByUrl(
+                `/outputs/${reference.imagePath.replace(/^\/?outputs\//, '')}`
+            );
+            generationId = found?.generationId;
+            asset = found;
+        } else {
+            generationId = reference.generationId;
+        }
 
-        const resultsByGenerationId = new Map<number, { files: string[]; videos: string[] }>();
+        if (generationId === undefined) {
+            throw new NotFoundError('Image not found');
+        }
+        RequestHandlers.checkAccess(req, generationId, requireOwner);
 
-        resultFiles.forEach((file) => {
-            const generationId = FileUtils.extractGenerationId(file);
-            if (generationId !== null) {
-                if (!resultsByGenerationId.has(generationId)) {
-                    resultsByGenerationId.set(generationId, { files: [], videos: [] });
-                }
-                // Separate videos from images
-                // Note: readdirSync already only returns files that exist, so no need for additional existsSync check
-                if (file.endsWith('.mp4')) {
-                    resultsByGenerationId.get(generationId)!.videos.push(`/outputs/${file}`);
-                } else {
-                    resultsByGenerationId.get(generationId)!.files.push(`/outputs/${file}`);
-                }
-            }
+        if ('assetId' in reference) {
+            asset = MetadataService.getAsset(generationId, reference.assetId);
+        }
+        if (!asset || asset.kind !== 'image') {
+            throw new NotFoundError('Image not found');
+        }
+
+        return { generationId, url: asset.url, versionId: asset.versionId };
+    }
+
+    private static resolveTake(
+        req: Request,
+        reference: { generationId: number; takeId: number },
+        requireOwner: boolean
+    ): VideoTake {
+        RequestHandlers.checkAccess(req, reference.generationId, requireOwner);
+        const take = MetadataService.getTakes(reference.generationId).find(
+            (take) => take.id === reference.takeId
+        );
+
+        if (!take || !fs.existsSync(FileUtils.outputUrlToPath(take.url))) {
+            throw new NotFoundError('Take not found');
+        }
+        return take;
+    }
+
+    // Stitches takes the user can view into a new gallery item of their own
+    static async handleCreateSequence(req: Request, res: Response): Promise<void> {
+        const { takes, crossfade, title } = ValidationUtils.validateSequence(req.body ?? {});
+        const resolvedTakes = takes.map((reference) =>
+            RequestHandlers.resolveTake(req, reference, false)
+        );
+        const clips: Array<{ url: string; probe: VideoProbe }> = [];
+        for (const take of resolvedTakes) {
+            clips.push({ url: take.url, probe: await MediaService.probe(take.url) });
+        }
+
+        if (crossfade > 0 && clips.some((clip) => clip.probe.duration <= crossfade)) {
+            throw new ValidationError('The crossfade must be shorter than every clip');
+        }
+
+        const segments: SequenceSegment[] = resolvedTakes.map((take, index) => ({
+            generationId: takes[index].generationId,
+            takeId: take.id,
+            url: take.url,
+            prompt: take.prompt,
+            duration: clips[index].probe.duration,
+        }));
+        const generationId = await SequenceService.create(
+            req.user!.id,
+            segments,
+            clips,
+            crossfade,
+            title
+        );
+        EventService.publishSaved(generationId, 'video');
+
+        res.status(201).json({
+            success: true,
+            id: generationId,
+            result: ResultService.getResult(generationId),
         });
+    }
 
-        Array.from(resultsByGenerationId.entries())
-            .sort((a, b) => b[0] - a[0])
-            .forEach(([id, data]) => {
-                if (data.files.length > 0) {
-                    const metadataEntry = metadata.get(id);
-                    results.push({
-                        id,
-                        prompts: metadataEntry?.prompts || [`Generated image ${id}`],
-                        videoPrompts: metadataEntry?.videoPrompts || [],
-                        resultImages: data.files.sort(),
-                        resultVideos: data.videos.length > 0 ? data.videos.sort() : undefined,
-                    });
-                }
-            });
+    // Models with their capabilities, so clients can offer only the options a model supports
+    static async handleGetModels(_req: Request, res: Response): Promise<void> {
+        res.json({
+            models: ModelService.getModels(),
+            defaults: {
+                generate: ModelService.getDefaultModelId('generate'),
+                customize: ModelService.getDefaultModelId('customize'),
+                edit: ModelService.getDefaultModelId('edit'),
+                upscale: ModelService.getDefaultModelId('upscale'),
+                video: ModelService.getDefaultModelId('video'),
+            },
+        });
+    }
 
-        return results;
+    static async handleGenerateImage(req: Request, res: Response): Promise<void> {
+        await RequestHandlers.generate(req, res, req.body as GenerateImageRequest);
     }
-}
 
-// ============================================================================
-// Request Handlers
-// ============================================================================
+    // Replays the original request of a generation into a new one. Fields in the body override
+    // the recorded ones, so a remix only needs to send what changes.
+    static async handleRegenerate(req: Request, res: Response): Promise<void> {
+        const sourceId = Number(req.params.id);
 
-class RequestHandlers {
-    private static saveEditedImages(
-        predictions: PredictionResponse[],
-        originalFilename: string
-    ): string[] {
-        const savedImages: string[] = [];
+        RequestHandlers.checkAccess(req, sourceId);
 
-        predictions.forEach((prediction, i) => {
-            const fileExtension = FileUtils.getFileExtension(prediction.mimeType);
-            const outputFilename =
-                predictions.length === 1
-                    ? originalFilename.replace(/\.[^.]+$/, `.${fileExtension}`)
-                    : originalFilename.replace(/\.[^.]+$/, '').replace(/-(\d+)$/, '') +
-                      `-${i}.${fileExtension}`;
-            const outputPath = path.join(PATHS.OUTPUTS, outputFilename);
+        const original = MetadataService.getMetadata(sourceId)?.versions?.find(
+            (version) => version.parentId === null
+        );
 
-            const imageBuffer = Buffer.from(prediction.bytesBase64Encoded, 'base64');
-            fs.writeFileSync(outputPath, imageBuffer);
-            savedImages.push(`/outputs/${outputFilename}`);
-        });
+        if (!original || original.operation !== 'generate') {
+            throw new ValidationError('Only generated images can be regenerated');
+        }
+
+        const overrides = (req.body || {}) as Partial<GenerateImageRequest>;
+        const { references, ...parameters } = original.parameters;
+        // Replacing the references may need the other model, so only replay it when they stay
+        const request: GenerateImageRequest = {
+            ...parameters,
+            prompt: original.prompt,
+            model: overrides.references === undefined ? original.model : undefined,
+            references,
+            ...overrides,
+        };
 
-        return savedImages;
+        await RequestHandlers.generate(req, res, request, sourceId);
     }
 
-    static async handleGenerateImage(req: Request, res: Response): Promise<void> {
+    private static async generate(
+        req: Request,
+        res: Response,
+        body: GenerateImageRequest,
+        regeneratedFrom?: number
+    ): Promise<void> {
+        let generationId: number | null = null;
+
         try {
-            const body = req.body as GenerateImageRequest;
+            const user = req.user!;
             const prompt = ValidationUtils.validatePrompt(body.prompt);
             const sampleCount = ValidationUtils.validateSampleCount(body.sampleCount);
             const aspectRatio = body.aspectRatio || CONSTRAINTS.DEFAULT_ASPECT_RATIO;
             const safetySetting = body.safetySetting || CONSTRAINTS.DEFAULT_SAFETY_SETTING;
             const personGeneration = body.personGeneration || CONSTRAINTS.DEFAULT_PERSON_GENERATION;
+            const generationOptions = ValidationUtils.validateGenerationOptions(body);
+            const referenceInputs = ValidationUtils.validateReferences(body.references, prompt);
+            const model = ValidationUtils.validateModel(
+                body.model,
+                referenceInputs.length > 0 ? 'customize' : 'generate'
+            );
+            ValidationUtils.validateModelOptions(model, { aspectRatio, sampleCount });
+            const references = await ReferenceImageService.resolveReferences(
+                referenceInputs,
+                user.id
+            );
+
+            UsageService.assertWithinBudget(UsageService.estimateCost(model.id, sampleCount));
 
-            const generationId = Date.now();
+            generationId = MetadataService.allocateGenerationId();
 
+            EventService.publish({ type: 'queued', generationId, operation: 'generate' }, user.id);
+            EventService.publish(
+                { type: 'request-sent', generationId, operation: 'generate' },
+                user.id
+            );
             const predictions = await ImageGenerationService.generateImage(
                 prompt,
                 sampleCount,
                 aspectRatio,
                 safetySetting,
-                personGeneration
+                personGeneration,
+                references,
+                generationOptions,
+                generationId,
+                model.id
             );
 
             const savedImages = ImageStorageService.saveImages(predictions, generationId);
 
             const enhancedPrompt = predictions[0]?.prompt;
-            MetadataService.saveMetadata(generationId, prompt, enhancedPrompt);
+            MetadataService.createGeneration(generationId, user.id, {
+                operation: 'generate',
+                prompt,
+                enhancedPrompt,
+                model: model.id,
+                parameters: {
+                    sampleCount,
+                    aspectRatio,
+                    safetySetting,
+                    personGeneration,
+                    ...generationOptions,
+                    references:
+                        references.length > 0
+                            ? references.map((reference) =>
+                                  ReferenceImageService.toStored(reference)
+                              )
+                            : undefined,
+                },
+                images: savedImages,
+            });
 
             const savedMetadata = MetadataService.getMetadata(generationId);
+            EventService.publishSaved(generationId, 'generate');
 
             res.json({
                 success: true,
@@ -687,163 +6682,761 @@ class RequestHandlers {
                 enhancedPrompt,
                 resultImages: savedImages,
                 count: savedImages.length,
+                regeneratedFrom,
             });
         } catch (error: unknown) {
-            const errorMessage =
-                error instanceof Error ? error.message : 'Failed to generate image';
-            console.error('Error generating image:', error);
-            res.status(500).json({
-                error: errorMessage,
-                details: String(error),
-            });
+            if (generationId !== null) {
+                EventService.publishError(generationId, 'generate', error, undefined, req.user!.id);
+            }
+            throw error;
         }
     }
 
     static async handleEditImage(req: Request, res: Response): Promise<void> {
+        let editedGenerationId: number | null = null;
+
         try {
             const body = req.body as EditImageRequest;
-            const imagePath = ValidationUtils.validateImagePath(body.imagePath);
+            const imageReference = ValidationUtils.validateImageReference(body);
             const editPrompt = ValidationUtils.validatePrompt(body.editPrompt);
             const sampleCount = ValidationUtils.validateSampleCount(body.sampleCount);
             const safetySetting = body.safetySetting || CONSTRAINTS.DEFAULT_SAFETY_SETTING;
             const personGeneration = body.personGeneration || CONSTRAINTS.DEFAULT_PERSON_GENERATION;
+            const editMode = ValidationUtils.validateEditMode(body);
+            const generationOptions = ValidationUtils.validateGenerationOptions(body);
+            const model = ValidationUtils.validateModel(body.model, 'edit');
+            ValidationUtils.validateModelOptions(model, { sampleCount, editMode });
+
+            const { generationId, url: imageUrl } = RequestHandlers.resolveImage(
+                req,
+                res,
+                imageReference
+            );
+            const metadataEntry = MetadataService.getMetadata(generationId);
 
-            const filename = path.basename(imagePath);
-            const generationId = FileUtils.extractGenerationId(filename);
+            if (!metadataEntry) {
+                throw new NotFoundError('Generation not found');
+            }
 
-            if (generationId === null) {
-                res.status(400).json({ error: 'Invalid image path format' });
-                return;
+            const versions = metadataEntry.versions || [];
+            const parentVersion =
+                body.versionId !== undefined
+                    ? versions.find((version) => version.id === Number(body.versionId))
+                    : versions.find((version) => version.images.includes(imageUrl)) ||
+                      versions.find((version) => version.id === metadataEntry.currentVersionId);
+
+            if (!parentVersion) {
+                throw new NotFoundError('Version not found');
+            }
+
+            if (parentVersion.images.length === 0) {
+                throw new ValidationError('This version has no stored image to edit');
             }
 
-            const fullImagePath = path.join(process.cwd(), imagePath.replace(/^\//, ''));
+            const sourceImage = parentVersion.images.includes(imageUrl)
+                ? imageUrl
+                : parentVersion.images[0];
+            const fullImagePath = FileUtils.outputUrlToPath(sourceImage);
 
             if (!fs.existsSync(fullImagePath)) {
-                res.status(404).json({ error: 'Image file not found' });
-                return;
+                throw new NotFoundError('Image file not found');
+            }
+
+            let imageBuffer: Buffer = fs.readFileSync(fullImagePath);
+            const editOptions: ImageEditOptions = { ...generationOptions };
+            let maskMode: MaskMode | undefined;
+
+            if (editMode) {
+                editOptions.editMode = EDIT_MODES[editMode];
+                let maskBuffer: Buffer | undefined;
+
+                if (editMode === 'outpaint' && body.outpaintAspectRatio) {
+                    const padded = await ImageProcessingUtils.padToAspectRatio(
+                        imageBuffer,
+                        body.outpaintAspectRatio
+                    );
+                    imageBuffer = padded.image;
+                    maskBuffer = padded.mask;
+                } else if (body.maskImage) {
+                    const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+                    maskBuffer = await ImageProcessingUtils.normalizeMask(
+                        ImageProcessingUtils.decodeBase64Image(body.maskImage),
+                        width,
+                        height
+                    );
+                }
+
+                // Generated or drawn masks are sent as user-provided; otherwise detect the background
+                maskMode = body.maskMode || (maskBuffer ? 'user' : 'background');
+                editOptions.mask = {
+                    maskMode: MASK_MODES[maskMode],
+                    imageBase64: maskBuffer?.toString('base64'),
+                    maskClasses: maskMode === 'semantic' ? body.maskClasses : undefined,
+                    dilation:
+                        body.maskDilation !== undefined ? Number(body.maskDilation) : undefined,
+                };
             }
 
-            const imageBase64 = FileUtils.imageToBase64(fullImagePath);
+            const imageBase64 = imageBuffer.toString('base64');
 
+            UsageService.assertWithinBudget(UsageService.estimateCost(model.id, sampleCount));
+
+            editedGenerationId = generationId;
+            EventService.publish({ type: 'queued', generationId, operation: 'edit' });
+            EventService.publish({ type: 'request-sent', generationId, operation: 'edit' });
             const predictions = await ImageGenerationService.editImage(
                 imageBase64,
                 editPrompt,
                 sampleCount,
                 safetySetting,
-                personGeneration
+                personGeneration,
+                editOptions,
+                generationId,
+                model.id
             );
 
-            // Delete existing video if it exists (since image was edited, old video is no longer valid)
-            const videoFilename = `result-${generationId}-video.mp4`;
-            const videoPath = path.join(PATHS.OUTPUTS, videoFilename);
-            if (fs.existsSync(videoPath)) {
-                fs.unlinkSync(videoPath);
-            }
-
-            // Save edited images (overwrite original or create numbered variants)
-            const savedImages = RequestHandlers.saveEditedImages(predictions, filename);
-
-            // Add edit prompt to metadata (preserving all previous prompts)
-            MetadataService.addEditPrompt(generationId, editPrompt.trim());
+            // Save edited images as a new version; earlier versions stay untouched
+            const version = MetadataService.addVersion(
+                generationId,
+                {
+                    parentId: parentVersion.id,
+                    operation: 'edit',
+                    prompt: editPrompt,
+                    enhancedPrompt: predictions[0]?.prompt,
+                    model: model.id,
+                    parameters: {
+                        sampleCount,
+                        safetySetting,
+                        personGeneration,
+                        ...generationOptions,
+                        editMode,
+                        maskMode,
+                        outpaintAspectRatio: body.outpaintAspectRatio,
+                    },
+                },
+                (versionId) => ImageStorageService.saveImages(predictions, generationId, versionId)
+            );
 
-            const updatedMetadata = MetadataService.getMetadata(generationId);
+            const versionId = version.id;
+            const savedImages = version.images;
+            const updatedMetadata = MetadataService.getMetadata(generationId)!;
+            EventService.publishSaved(generationId, 'edit');
 
             res.json({
                 success: true,
                 id: generationId,
-                prompts: updatedMetadata?.prompts || [],
+                versionId,
+                parentVersionId: parentVersion.id,
+                prompts: MetadataService.getVersionLineage(updatedMetadata, versionId).map(
+                    (version) => version.prompt
+                ),
                 editPrompt: editPrompt.trim(),
                 enhancedPrompt: predictions[0]?.prompt,
                 resultImages: savedImages,
                 count: savedImages.length,
             });
         } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : 'Failed to edit image';
-            console.error('Error editing image:', error);
-            res.status(500).json({
-                error: errorMessage,
-                details: String(error),
-            });
+            if (editedGenerationId !== null) {
+                EventService.publishError(editedGenerationId, 'edit', error);
+            }
+            throw error;
         }
     }
 
-    static async handleGenerateVideo(req: Request, res: Response): Promise<void> {
+    // The upscaled image becomes a new version branching from the version it was made from
+    static async handleUpscaleImage(req: Request, res: Response): Promise<void> {
+        let upscaledGenerationId: number | null = null;
+
         try {
-            const body = req.body as GenerateVideoRequest;
-            const imagePath = ValidationUtils.validateImagePath(body.imagePath);
-            const prompt = ValidationUtils.validatePrompt(body.prompt);
-            const aspectRatio = body.aspectRatio || '16:9';
-            const duration = body.duration || 8; // Default 8 seconds for Veo 3 models image-to-video (supported: 4, 6, or 8)
+            const body = req.body as UpscaleImageRequest;
+            const imageReference = ValidationUtils.validateImageReference(body);
+            const factor = ValidationUtils.validateUpscaleFactor(body.factor);
+            const model = ValidationUtils.validateModel(body.model, 'upscale');
 
-            const filename = path.basename(imagePath);
-            const generationId = FileUtils.extractGenerationId(filename);
+            const {
+                generationId,
+                url: imageUrl,
+                versionId,
+            } = RequestHandlers.resolveImage(req, res, imageReference);
+            const metadataEntry = MetadataService.getMetadata(generationId);
 
-            if (generationId === null) {
-                res.status(400).json({ error: 'Invalid image path format' });
-                return;
+            if (!metadataEntry) {
+                throw new NotFoundError('Generation not found');
             }
 
-            const fullImagePath = path.join(process.cwd(), imagePath.replace(/^\//, ''));
+            const versions = metadataEntry.versions || [];
+            const parentVersion =
+                versions.find((version) => version.id === versionId) ||
+                versions.find((version) => version.id === metadataEntry.currentVersionId);
+
+            if (!parentVersion) {
+                throw new NotFoundError('Version not found');
+            }
+
+            const fullImagePath = FileUtils.outputUrlToPath(imageUrl);
 
             if (!fs.existsSync(fullImagePath)) {
-                res.status(404).json({ error: 'Image file not found' });
-                return;
+                throw new NotFoundError('Image file not found');
             }
 
-            const imageBase64 = FileUtils.imageToBase64(fullImagePath);
+            const imageBuffer = fs.readFileSync(fullImagePath);
+            const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+            ValidationUtils.validateUpscaleInput(
+                { width, height, bytes: imageBuffer.length },
+                factor
+            );
 
-            // Generate video (this is a long-running operation)
-            const videoBase64 = await VideoGenerationService.generateVideo(
-                imageBase64,
-                prompt,
-                aspectRatio,
-                duration
+            UsageService.assertWithinBudget(UsageService.estimateCost(model.id, 1));
+
+            upscaledGenerationId = generationId;
+            EventService.publish({ type: 'queued', generationId, operation: 'upscale' });
+            EventService.publish({ type: 'request-sent', generationId, operation: 'upscale' });
+            const predictions = await ImageGenerationService.upscaleImage(
+                imageBuffer.toString('base64'),
+                factor,
+                generationId,
+                model.id
+            );
+
+            const version = MetadataService.addVersion(
+                generationId,
+                {
+                    parentId: parentVersion.id,
+                    operation: 'upscale',
+                    prompt: parentVersion.prompt,
+                    model: model.id,
+                    parameters: { upscaleFactor: factor, sourceImage: imageUrl },
+                },
+                (versionId) => ImageStorageService.saveImages(predictions, generationId, versionId)
+            );
+            EventService.publishSaved(generationId, 'upscale');
+
+            res.json({
+                success: true,
+                id: generationId,
+                versionId: version.id,
+                parentVersionId: parentVersion.id,
+                factor,
+                resultImages: version.images,
+                count: version.images.length,
+            });
+        } catch (error: unknown) {
+            if (upscaledGenerationId !== null) {
+                EventService.publishError(upscaledGenerationId, 'upscale', error);
+            }
+            throw error;
+        }
+    }
+
+    // 'image' and 'frames' add the video to the start frame's generation; 'text' creates a
+    // generation that has only videos
+    static async handleGenerateVideo(req: Request, res: Response): Promise<void> {
+        const body = req.body as GenerateVideoRequest;
+        const { mode, options } = ValidationUtils.validateVideoOptions(body);
+        const imageReference =
+            mode === 'image' || mode === 'frames'
+                ? ValidationUtils.validateImageReference(body)
+                : null;
+        const takeReference =
+            mode === 'extend' ? ValidationUtils.validateTakeReference(body) : null;
+        if (mode === 'frames' && !body.lastFrame) {
+            throw new ValidationError('lastFrame is required for first and last frame videos');
+        }
+        const lastFrameReference =
+            mode === 'frames'
+                ? ValidationUtils.validateImageReference({
+                      generationId: body.lastFrame?.generationId,
+                      assetId: body.lastFrame?.assetId,
+                  })
+                : null;
+        const prompt = ValidationUtils.validatePrompt(body.prompt);
+        const aspectRatio = body.aspectRatio || CONSTRAINTS.DEFAULT_VIDEO_ASPECT_RATIO;
+        const duration = Number(body.duration || CONSTRAINTS.DEFAULT_VIDEO_DURATION);
+        const model = ValidationUtils.validateModel(body.model, 'video');
+        ValidationUtils.validateModelOptions(model, {
+            aspectRatio,
+            sampleCount: options.sampleCount,
+            duration,
+            generateAudio: body.generateAudio,
+            videoMode: mode,
+            resolution: options.resolution,
+        });
+        const generateAudio = body.generateAudio ?? model.audio === true;
+
+        let generationId: number | null = null;
+        let imagePath: string | undefined;
+        let sourceVersionId: number | undefined;
+        let lastFramePath: string | undefined;
+        let videoPath: string | undefined;
+
+        if (imageReference) {
+            const image = RequestHandlers.resolveImage(req, res, imageReference);
+            ({ generationId, url: imagePath } = image);
+            sourceVersionId = image.versionId ?? undefined;
+
+            if (!fs.existsSync(FileUtils.outputUrlToPath(imagePath))) {
+                throw new NotFoundError('Image file not found');
+            }
+
+            if (!MetadataService.getMetadata(generationId)) {
+                throw new NotFoundError('Generation not found');
+            }
+        }
+        // The end frame is only read, so viewing its generation is enough
+        if (lastFrameReference) {
+            ({ url: lastFramePath } = RequestHandlers.resolveImage(
+                req,
+                res,
+                lastFrameReference,
+                false
+            ));
+        }
+        // Extensions join the generation of the take they continue
+        if (takeReference) {
+            ({ url: videoPath } = RequestHandlers.resolveTake(req, takeReference, true));
+            generationId = takeReference.generationId;
+            await MediaService.probe(videoPath);
+        }
+
+        UsageService.assertWithinBudget(
+            UsageService.estimateVideoCost(
+                duration,
+                model.id,
+                generateAudio,
+                options.sampleCount ?? 1
+            )
+        );
+
+        const params: VideoJobParams = {
+            mode,
+            imagePath,
+            sourceVersionId,
+            lastFramePath,
+            videoPath,
+            prompt,
+            model: model.id,
+            aspectRatio,
+            duration,
+            generateAudio,
+            ...options,
+        };
+        // Video generation is a long-running operation, so it runs as a background job
+        const job = DatabaseService.transaction(() => {
+            if (generationId === null) {
+                generationId = MetadataService.allocateGenerationId();
+                MetadataService.createGeneration(generationId, req.user!.id, {
+                    operation: 'video',
+                    prompt,
+                    model: model.id,
+                    parameters: {
+                        aspectRatio,
+                        duration,
+                        generateAudio,
+                        ...options,
+                    },
+                    images: [],
+                });
+            }
+            return JobService.createJob(generationId, params);
+        });
+        EventService.publish({
+            type: 'queued',
+            generationId: job.generationId,
+            operation: 'video',
+            jobId: job.id,
+        });
+        VideoJobService.run(job);
+
+        res.status(202).json({
+            success: true,
+            id: job.generationId,
+            jobId: job.id,
+            status: job.status,
+            prompt,
+        });
+    }
+
+    static async handleGetJob(req: Request, res: Response): Promise<void> {
+        const job = JobService.getJob(String(req.params.id));
+
+        if (!job || !AccessService.getAccess(req.user!.id, job.generationId)) {
+            throw new NotFoundError('Job not found');
+        }
+
+        res.json({ job });
+    }
+
+    static async handleUploadImage(req: Request, res: Response): Promise<void> {
+        let generationId: number | null = null;
+
+        try {
+            await new Promise<void>((resolve, reject) =>
+                RequestHandlers.uploadMiddleware(req, res, (error: unknown) =>
+                    error ? reject(error) : resolve()
+                )
             );
 
-            // Save video (overwrite if exists)
-            const videoFilename = `result-${generationId}-video.mp4`;
-            const videoPath = path.join(PATHS.OUTPUTS, videoFilename);
+            const file = req.file;
+            if (!file) {
+                throw new ValidationError('An image file is required (form field "image")');
+            }
+
+            // The declared type comes from the client; the detected type comes from the bytes
+            const mimeType = FileUtils.detectImageMimeType(file.buffer);
+            if (!mimeType || !SUPPORTED_IMAGE_MIME_TYPES.includes(mimeType)) {
+                throw new ValidationError('File content is not a PNG, JPEG or WebP image');
+            }
 
-            // Delete existing video if it exists to ensure clean overwrite
-            if (fs.existsSync(videoPath)) {
-                fs.unlinkSync(videoPath);
+            const { width, height } = await sharp(file.buffer)
+                .metadata()
+                .catch(() => ({ width: undefined, height: undefined }));
+            if (!width || !height) {
+                throw new ValidationError('Image file could not be decoded');
             }
 
-            const videoBuffer = Buffer.from(videoBase64, 'base64');
-            fs.writeFileSync(videoPath, videoBuffer);
+            const description =
+                typeof req.body?.description === 'string' && req.body.description.trim()
+                    ? req.body.description.trim()
+                    : `Uploaded image: ${file.originalname}`;
+
+            generationId = MetadataService.allocateGenerationId();
+            const savedImage = ImageStorageService.saveImage(
+                file.buffer.toString('base64'),
+                mimeType,
+                generationId
+            );
 
-            // Add video prompt to metadata
-            MetadataService.addVideoPrompt(generationId, prompt);
+            MetadataService.createGeneration(
+                generationId,
+                req.user!.id,
+                {
+                    operation: 'upload',
+                    prompt: description,
+                    parameters: {},
+                    images: [savedImage],
+                },
+                'uploaded',
+                file.originalname
+            );
+            EventService.publishSaved(generationId, 'upload');
 
             res.json({
                 success: true,
                 id: generationId,
-                videoUrl: `/outputs/${videoFilename}`,
-                prompt: prompt.trim(),
+                mimeType,
+                width,
+                height,
+                resultImages: [savedImage],
+                result: ResultService.getResult(generationId),
             });
         } catch (error: unknown) {
-            const errorMessage =
-                error instanceof Error ? error.message : 'Failed to generate video';
-            console.error('Error generating video:', error);
-            res.status(500).json({
-                error: errorMessage,
-                details: String(error),
-            });
+            if (generationId !== null) {
+                EventService.publishError(generationId, 'upload', error, undefined, req.user!.id);
+            }
+            throw error;
         }
     }
 
-    static async handleGetResults(_req: Request, res: Response): Promise<void> {
-        try {
-            const results = ResultService.getAllResults();
-            res.json({ results });
-        } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : 'Failed to get results';
-            console.error('Error getting results:', error);
-            res.status(500).json({
-                error: errorMessage,
-                details: String(error),
-            });
+    static async handleGetVersions(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId);
+
+        const metadataEntry = MetadataService.getMetadata(generationId);
+
+        if (!metadataEntry) {
+            throw new NotFoundError('Generation not found');
+        }
+
+        res.json({
+            id: generationId,
+            currentVersionId: metadataEntry.currentVersionId,
+            versions: metadataEntry.versions || [],
+        });
+    }
+
+    static async handleRevertVersion(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        const versionId = Number(req.body?.versionId);
+        const version = MetadataService.getMetadata(generationId)?.versions?.find(
+            (existing) => existing.id === versionId
+        );
+
+        if (!version) {
+            throw new NotFoundError('Version not found');
+        }
+
+        if (version.images.length === 0) {
+            throw new ValidationError('This version has no stored image to revert to');
+        }
+
+        MetadataService.setCurrentVersion(generationId, versionId);
+        EventService.publishSaved(generationId, 'edit');
+
+        res.json({ success: true, result: ResultService.getResult(generationId) });
+    }
+
+    static async handleDeleteGeneration(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        if (!TrashService.trashGeneration(generationId)) {
+            throw new NotFoundError('Generation not found');
+        }
+
+        EventService.publishGalleryUpdate(generationId);
+        res.json({ success: true, id: generationId });
+    }
+
+    static async handleRestoreGeneration(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        if (!TrashService.restoreGeneration(generationId)) {
+            throw new NotFoundError('Generation not found in trash');
+        }
+
+        EventService.publishGalleryUpdate(generationId);
+        res.json({ success: true, result: ResultService.getResult(generationId) });
+    }
+
+    // Asset routes address a single image variant or video by its file name in outputs/
+    // :asset is the asset id; a file name is still accepted but deprecated
+    private static getAssetUrl(req: Request, res: Response): string {
+        const generationId = Number(req.params.id);
+        const asset = String(req.params.asset);
+
+        if (/^\d+$/.test(asset)) {
+            const url = MetadataService.getAsset(generationId, Number(asset), true)?.url;
+            if (!url) {
+                throw new NotFoundError('File not found');
+            }
+            return url;
+        }
+
+        res.setHeader('Deprecation', 'true');
+        if (
+            asset !== path.basename(asset) ||
+            FileUtils.extractGenerationId(asset) !== generationId
+        ) {
+            throw new ValidationError('File does not belong to this generation');
+        }
+        return `/outputs/${asset}`;
+    }
+
+    static async handleDeleteAsset(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        const url = RequestHandlers.getAssetUrl(req, res);
+
+        if (!TrashService.trashAsset(generationId, url)) {
+            throw new NotFoundError('File not found');
+        }
+
+        EventService.publishGalleryUpdate(generationId);
+        res.json({ success: true, url, result: ResultService.getResult(generationId) });
+    }
+
+    static async handleRestoreAsset(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        const url = RequestHandlers.getAssetUrl(req, res);
+
+        if (!TrashService.restoreAsset(generationId, url)) {
+            throw new NotFoundError('File not found in trash');
+        }
+
+        EventService.publishGalleryUpdate(generationId);
+        res.json({ success: true, url, result: ResultService.getResult(generationId) });
+    }
+
+    // PUT stars a take, DELETE unstars it
+    static async handleStarTake(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        const starred = req.method === 'PUT';
+        if (!MetadataService.setTakeStarred(generationId, Number(req.params.take), starred)) {
+            throw new NotFoundError('Take not found');
+        }
+
+        EventService.publishGalleryUpdate(generationId);
+        res.json({ success: true, starred, result: ResultService.getResult(generationId) });
+    }
+
+    static async handleGetTrash(req: Request, res: Response): Promise<void> {
+        res.json(TrashService.listTrash(req.user!.id));
+    }
+
+    static async handlePurgeTrash(req: Request, res: Response): Promise<void> {
+        const olderThanDays =
+            req.query.olderThanDays !== undefined ? Number(req.query.olderThanDays) : 0;
+
+        if (!Number.isFinite(olderThanDays) || olderThanDays < 0) {
+            throw new ValidationError('olderThanDays must be a non-negative number');
+        }
+
+        const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+        const purged = TrashService.purge(req.user!.id, cutoff.toISOString());
+        res.json({ success: true, purged });
+    }
+
+    static async handleCheckConsistency(req: Request, res: Response): Promise<void> {
+        if (!req.user!.isAdmin) {
+            throw new ForbiddenError('Only admins can run maintenance');
+        }
+
+        res.json(ConsistencyService.check());
+    }
+
+    static async handleRepairConsistency(req: Request, res: Response): Promise<void> {
+        if (!req.user!.isAdmin) {
+            throw new ForbiddenError('Only admins can run maintenance');
+        }
+
+        res.json({ success: true, ...ConsistencyService.repair() });
+    }
+
+    static async handleGetUsage(req: Request, res: Response): Promise<void> {
+        const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 366);
+        const months = Math.min(Math.max(Number(req.query.months) || 12, 1), 120);
+        const now = new Date();
+        const dailySince = new Date(
+            Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - days + 1)
+        );
+        const monthlySince = new Date(
+            Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months + 1, 1)
+        );
+
+        res.json({
+            budgets: UsageService.getBudgets(),
+            daily: UsageService.getRollups('day', dailySince),
+            monthly: UsageService.getRollups('month', monthlySince),
+            byModel: UsageService.getModelBreakdown(
+                new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+            ),
+        });
+    }
+
+    static handleEvents(req: Request, res: Response): void {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+        });
+        res.write('retry: 3000\n\n');
+
+        EventService.subscribe(res, req.user!.id);
+
+        // Comment lines keep proxies from closing an idle stream
+        const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+        req.on('close', () => clearInterval(heartbeat));
+    }
+
+    static async handleGetResults(req: Request, res: Response): Promise<void> {
+        const query = ValidationUtils.validateResultQuery(req.query);
+        const { results, nextCursor } = ResultService.searchResults(query, req.user!.id);
+        res.json({ results, nextCursor });
+    }
+
+    static async handleGetShares(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        res.json({ shares: AccessService.listShares(generationId) });
+    }
+
+    static async handleShareGeneration(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        const user = UserService.getUserByName(String(req.params.username));
+        if (!user) {
+            throw new NotFoundError('User not found');
+        }
+        if (user.id === req.user!.id) {
+            throw new ValidationError('You already own this generation');
+        }
+
+        AccessService.share(generationId, user.id);
+        EventService.publishGalleryUpdate(generationId, 'share');
+        res.json({ success: true, shares: AccessService.listShares(generationId) });
+    }
+
+    static async handleUnshareGeneration(req: Request, res: Response): Promise<void> {
+        const generationId = Number(req.params.id);
+        RequestHandlers.checkAccess(req, generationId, true);
+
+        const user = UserService.getUserByName(String(req.params.username));
+        if (!user || !AccessService.unshare(generationId, user.id)) {
+            throw new NotFoundError('Share not found');
+        }
+
+        res.json({ success: true, shares: AccessService.listShares(generationId) });
+    }
+
+    // Accepts the file as the raw body (text/csv, application/jsonl, ...) or as JSON
+    // { content, format?, name? }; ?format= and ?name= work for both
+    static async handleCreateBatch(req: Request, res: Response): Promise<void> {
+        const isRawBody = typeof req.body === 'string';
+        const content: unknown = isRawBody ? req.body : req.body?.content;
+        if (typeof content !== 'string' || !content.trim()) {
+            throw new ValidationError('Send the batch file as the request body or as "content"');
+        }
+
+        const format = BatchService.detectFormat(
+            content,
+            String(
+                req.query.format ?? (isRawBody ? req.get('Content-Type') : req.body?.format) ?? ''
+            )
+        );
+        const rows = BatchService.parseRows(content, format);
+        const nameParam = req.query.name ?? (isRawBody ? undefined : req.body?.name);
+        const name =
+            typeof nameParam === 'string' && nameParam.trim()
+                ? nameParam.trim()
+                : `Batch of ${rows.length} row(s)`;
+
+        UsageService.assertWithinBudget(BatchService.estimateCost(rows.map((row) => row.input)));
+
+        const batch = BatchService.createBatch(req.user!.id, name, rows);
+        BatchService.run(batch.id);
+
+        res.status(201).json({ success: true, batch });
+    }
+
+    static async handleGetBatches(req: Request, res: Response): Promise<void> {
+        res.json({ batches: BatchService.listBatches(req.user!.id) });
+    }
+
+    // The batch report: JSON by default, a CSV download with ?format=csv
+    static async handleGetBatch(req: Request, res: Response): Promise<void> {
+        const batch = BatchService.getBatch(String(req.params.id), req.user!.id);
+        if (!batch) {
+            throw new NotFoundError('Batch not found');
+        }
+
+        const report = BatchService.getReport(batch);
+        if (req.query.format === 'csv') {
+            res.type('text/csv').attachment(`batch-${batch.id}.csv`);
+            res.send(BatchService.toCsv(report));
+            return;
+        }
+
+        res.json({ batch: { ...batch, rows: report } });
+    }
+
+    static async handleRetryBatch(req: Request, res: Response): Promise<void> {
+        const id = String(req.params.id);
+        if (!BatchService.getBatch(id, req.user!.id)) {
+            throw new NotFoundError('Batch not found');
         }
+
+        const retried = BatchService.retryFailed(id);
+        res.json({ success: true, retried, batch: BatchService.getBatch(id, req.user!.id) });
     }
 }
 
@@ -852,14 +7445,16 @@ class RequestHandlers {
 // ============================================================================
 
 function initializeApp(): void {
+    UsageService.loadPricing();
     FileUtils.ensureDirectoryExists(PATHS.OUTPUTS);
+    LegacyImportService.importIfNeeded();
 
-    if (!process.env.GOOGLE_APPLICATION_CREDENTIALS) {
-        if (!fs.existsSync(PATHS.SERVICE_ACCOUNT_KEY)) {
-            throw new Error(`Service account key file not found at: ${PATHS.SERVICE_ACCOUNT_KEY}`);
-        }
-        process.env.GOOGLE_APPLICATION_CREDENTIALS = PATHS.SERVICE_ACCOUNT_KEY;
+    // The mock provider runs fully offline and needs no credentials
+    if (ProviderService.getProvider().name === 'mock') {
+        return;
     }
+
+    void AuthenticationService.logDiagnostic();
 }
 
 // ============================================================================
@@ -868,11 +7463,11 @@ function initializeApp(): void {
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '20mb' })); // Room for base64 masks
 app.use(express.static('public'));
 
 // Serve outputs with no-cache headers to prevent browser caching of edited images
-app.use('/outputs', (req, res, next) => {
+app.use('/outputs', RequestHandlers.requireOutputAccess, (req, res, next) => {
     res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
     res.setHeader('Pragma', 'no-cache');
     res.setHeader('Expires', '0');
@@ -883,20 +7478,110 @@ app.use('/outputs', (req, res, next) => {
 // API Routes
 // ============================================================================
 
+// Signing in and out is open; every other API route needs a session or an API key
+app.get('/api/auth/session', RequestHandlers.handleGetSession);
+app.post('/api/auth/register', RequestHandlers.handleRegister);
+app.post('/api/auth/login', RequestHandlers.handleLogin);
+app.post('/api/auth/logout', RequestHandlers.handleLogout);
+app.use('/api', RequestHandlers.requireUser);
+
+app.get('/api/auth/keys', RequestHandlers.handleGetApiKeys);
+app.post('/api/auth/keys', RequestHandlers.handleCreateApiKey);
+app.delete('/api/auth/keys/:id', RequestHandlers.handleDeleteApiKey);
+app.get('/api/users', RequestHandlers.handleGetUsers);
+app.get('/api/models', RequestHandlers.handleGetModels);
 app.post('/api/generate-image', RequestHandlers.handleGenerateImage);
 app.post('/api/edit-image', RequestHandlers.handleEditImage);
+app.post('/api/upscale', RequestHandlers.handleUpscaleImage);
 app.post('/api/generate-video', RequestHandlers.handleGenerateVideo);
+app.get('/api/jobs/:id', RequestHandlers.handleGetJob);
+app.post('/api/sequences', RequestHandlers.handleCreateSequence);
+app.post('/api/upload', RequestHandlers.handleUploadImage);
+app.get('/api/generations/:id/versions', RequestHandlers.handleGetVersions);
+app.post('/api/generations/:id/revert', RequestHandlers.handleRevertVersion);
+app.post('/api/generations/:id/regenerate', RequestHandlers.handleRegenerate);
+app.delete('/api/generations/:id', RequestHandlers.handleDeleteGeneration);
+app.post('/api/generations/:id/restore', RequestHandlers.handleRestoreGeneration);
+app.get('/api/generations/:id/shares', RequestHandlers.handleGetShares);
+app.put('/api/generations/:id/shares/:username', RequestHandlers.handleShareGeneration);
+app.delete('/api/generations/:id/shares/:username', RequestHandlers.handleUnshareGeneration);
+app.delete('/api/generations/:id/assets/:asset', RequestHandlers.handleDeleteAsset);
+app.post('/api/generations/:id/assets/:asset/restore', RequestHandlers.handleRestoreAsset);
+app.put('/api/generations/:id/takes/:take/star', RequestHandlers.handleStarTake);
+app.delete('/api/generations/:id/takes/:take/star', RequestHandlers.handleStarTake);
+app.get('/api/trash', RequestHandlers.handleGetTrash);
+app.delete('/api/trash', RequestHandlers.handlePurgeTrash);
+app.get('/api/maintenance/consistency', RequestHandlers.handleCheckConsistency);
+app.post('/api/maintenance/consistency/repair', RequestHandlers.handleRepairConsistency);
+app.post(
+    '/api/batches',
+    express.text({
+        type: ['text/*', 'application/jsonl', 'application/x-ndjson'],
+        limit: CONSTRAINTS.MAX_BATCH_BYTES,
+    }),
+    RequestHandlers.handleCreateBatch
+);
+app.get('/api/batches', RequestHandlers.handleGetBatches);
+app.get('/api/batches/:id', RequestHandlers.handleGetBatch);
+app.post('/api/batches/:id/retry', RequestHandlers.handleRetryBatch);
+app.get('/api/usage', RequestHandlers.handleGetUsage);
+app.get('/api/events', RequestHandlers.handleEvents);
 app.get('/api/results', RequestHandlers.handleGetResults);
 
+// Unknown API routes and every error thrown above get the same JSON error shape
+app.use('/api', RequestHandlers.handleUnknownRoute);
+app.use(RequestHandlers.handleError);
+
 // ============================================================================
 // Server Startup
 // ============================================================================
 
-initializeApp();
+// Only when run directly; the command-line interface (src/cli.ts) imports the services below
+if (require.main === module) {
+    initializeApp();
+    VideoJobService.resumePendingJobs();
+    BatchService.resumePendingBatches();
+
+    app.listen(CONFIG.PORT, () => {
+        console.log(`🚀 Server running on http://localhost:${CONFIG.PORT}`);
+        console.log(`📁 Outputs directory: ${PATHS.OUTPUTS}`);
+        console.log(`🔌 Using generation provider: ${ProviderService.getProvider().name}`);
+        console.log(`🎨 Using Imagen model: ${CONFIG.IMAGEN_MODEL}`);
+        console.log(`✏️  Using Imagen Edit model: ${CONFIG.IMAGEN_EDIT_MODEL}`);
+        console.log(`🔍 Using Imagen Upscale model: ${CONFIG.IMAGEN_UPSCALE_MODEL}`);
+        if (!UserService.hasUsers()) {
+            console.log(`👤 No accounts yet: open the app to create the first (admin) account`);
+        }
+    });
+}
 
-app.listen(CONFIG.PORT, () => {
-    console.log(`🚀 Server running on http://localhost:${CONFIG.PORT}`);
-    console.log(`📁 Outputs directory: ${PATHS.OUTPUTS}`);
-    console.log(`🎨 Using Imagen model: ${CONFIG.IMAGEN_MODEL}`);
-    console.log(`✏️  Using Imagen Edit model: ${CONFIG.IMAGEN_EDIT_MODEL}`);
-});
+export {
+    ASPECT_RATIOS,
+    AccessService,
+    AppError,
+    BudgetExceededError,
+    CONFIG,
+    CONSTRAINTS,
+    FileUtils,
+    ImageGenerationOptions,
+    ImageGenerationResult,
+    ImageGenerationService,
+    ImageStorageService,
+    ImageVersion,
+    JobService,
+    MetadataService,
+    ModelInfo,
+    MockProvider,
+    ModelService,
+    OutputMimeType,
+    ProviderService,
+    ResultService,
+    SafetyFilteredError,
+    UsageService,
+    User,
+    UserService,
+    ValidationError,
+    ValidationUtils,
+    VideoJobService,
+    initializeApp,
+};